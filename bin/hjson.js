@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { readFileSync, promises as fs } from 'node:fs';
+import { runCli } from '../dist/hjson.es.js';
+
+runCli(process.argv.slice(2), {
+  read: async (file) => {
+    if (file !== undefined) return readFileSync(file, 'utf8');
+    let text = '';
+    process.stdin.setEncoding('utf8');
+    for await (const chunk of process.stdin) text += chunk;
+    return text;
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  write: (file, text) => fs.writeFile(file, text, 'utf8'),
+  readDir: async (dir) => (await fs.readdir(dir, { withFileTypes: true }))
+    .map((entry) => ({ name: entry.name, directory: entry.isDirectory() })),
+  cwd: () => process.cwd().replace(/\\/g, '/'),
+}).then((code) => {
+  process.exitCode = code;
+});
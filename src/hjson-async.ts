@@ -0,0 +1,117 @@
+/**
+ * Hjson async input and output
+ * Reads Hjson text from web streams, Node streams and async iterables, and
+ * writes it in chunks
+ */
+
+import { parseStringAsync } from './hjson-parse';
+import { stringifyChunks } from './hjson-stringify';
+import { ParseOptions } from './types/parse-options';
+import { StringifyOptions } from './types/stringify-options';
+import { LocatedParseResult } from './types/location';
+import { Reviver } from './types/reviver';
+import { TextChunk, TextSource, ReadableStreamLike } from './types/stream';
+
+/**
+ * Reads all text from a source, decoding UTF-8 bytes incrementally
+ * A character split across chunks is decoded once its last byte arrives.
+ * @param source - A web `ReadableStream`, a Node `Readable` or any async iterable
+ * @returns The text
+ */
+export async function readText(source: TextSource): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+
+  const add = (chunk: TextChunk): void => {
+    if (typeof chunk === 'string') text += decoder.decode() + chunk;
+    else if (ArrayBuffer.isView(chunk)) text += decoder.decode(chunk, { stream: true });
+    else throw new Error("expected a string or Uint8Array chunk, got " + typeof chunk);
+  };
+
+  if (isReadableStream(source)) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        add(value!);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else if (source && typeof (source as any)[Symbol.asyncIterator] === 'function') {
+    for await (const chunk of source) add(chunk);
+  } else {
+    throw new Error("expected a ReadableStream or an async iterable");
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Checks if a source is a web `ReadableStream`
+ * Streams are read through their reader, as not every runtime makes them iterable.
+ * @param source - The source
+ */
+function isReadableStream(source: TextSource): source is ReadableStreamLike<TextChunk> {
+  return typeof (source as any)?.getReader === 'function';
+}
+
+/**
+ * Parses Hjson text, possibly read from a stream
+ * Resolves to the same result as `parse` on the whole text, and can use
+ * asynchronous interpolation resolvers.
+ * @param source - The text, a web `ReadableStream`, a Node `Readable` or any
+ * async iterable of strings or UTF-8 bytes
+ * @param opt - Optional parsing configuration, or a reviver
+ * @returns The parsed value, or the value and its source locations when
+ * `opt.locations` is set
+ */
+export async function parseAsync(source: string | TextSource, opt: ParseOptions & { locations: true }): Promise<LocatedParseResult>;
+export async function parseAsync(source: string | TextSource, opt?: ParseOptions | Reviver): Promise<any>;
+export async function parseAsync(source: string | TextSource, opt?: ParseOptions | Reviver): Promise<any> {
+  return parseStringAsync(typeof source === 'string' ? source : await readText(source), opt);
+}
+
+/**
+ * Stringifies a value to Hjson in chunks
+ * The chunks joined are the same as `stringify` returns. The value is only
+ * visited as far as the chunks are read, so a slow consumer holds back the
+ * output between nested objects and arrays.
+ * @param value - The value to stringify
+ * @param opt - Optional configuration for the stringification process
+ * @param chunkSize - The length chunks are collected to before they are yielded
+ * @returns The chunks of text
+ */
+export async function* stringifyStream(value: any, opt?: StringifyOptions, chunkSize: number = 16384): AsyncGenerator<string, void> {
+  let chunk = '';
+  for (const part of stringifyChunks(value, opt)) {
+    chunk += part;
+    if (chunk.length >= chunkSize) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+  if (chunk) yield chunk;
+}
+
+/**
+ * Stringifies a value to Hjson as a web `ReadableStream`
+ * Chunks are produced as the stream is read, see `stringifyStream`.
+ * @param value - The value to stringify
+ * @param opt - Optional configuration for the stringification process
+ * @param chunkSize - The length chunks are collected to before they are enqueued
+ * @returns The stream of text
+ */
+export function stringifyReadableStream(value: any, opt?: StringifyOptions, chunkSize?: number): ReadableStream<string> {
+  const chunks = stringifyStream(value, opt, chunkSize);
+  return new ReadableStream<string>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return();
+    }
+  }, { highWaterMark: 0 });
+}
@@ -0,0 +1,292 @@
+/**
+ * Hjson command-line tool
+ * Converts between Hjson and JSON, reformats and validates Hjson text
+ */
+
+import parse, { parseWithDiagnostics } from './hjson-parse';
+import stringify from './hjson-stringify';
+import { format, unifiedDiff } from './hjson-format';
+import { expandGlobs } from './hjson-glob';
+import { resolvePath, dirname } from './hjson-path';
+import { std } from './hjson-dsf';
+import { HjsonSyntaxError } from './hjson-error';
+import { CliIo } from './types/cli';
+import { DSF } from './types/dsf';
+import { Diagnostic } from './types/diagnostic';
+import { StringifyOptions } from './types/stringify-options';
+
+const usage = `Usage: hjson [options] [file]
+       hjson fmt [--check|--write] [--diff] [options] <files or globs>
+
+Reads Hjson or JSON from the file, or from the standard input without one,
+and writes it as Hjson to the standard output.
+
+fmt reformats the files keeping their comments and prints them, using the
+options of the nearest .hjsonfmtrc above each file (itself Hjson) unless
+overridden by flags.
+
+Options:
+  -j, --json              output formatted JSON
+  -c, --compact           output JSON on one line
+  --validate              only check the input, printing every problem
+  --quotes <mode>         quote strings: min, keys, strings or all
+  --separator             output commas between members and elements
+  --space <n|text>        indentation, a number of spaces or the text to use
+  --braces-same-line      put opening braces on the line of their key
+  --rt                    keep comments and whitespace (round trip)
+  --dsf <names>           domain specific formats, any of hex, date, math, binary
+  -h, --help              show this help
+
+fmt options:
+  --check                 list the files that are not formatted
+  --write                 rewrite the files that are not formatted
+  --diff                  print a unified diff of the changes
+
+Exit codes: 0 success, 1 invalid or unformatted input, 2 usage or read error.
+`;
+
+/**
+ * Name of the formatting config file
+ */
+const rcName = '.hjsonfmtrc';
+
+/**
+ * Options of the command, collected from the arguments
+ */
+interface CliOptions {
+  output: 'hjson' | 'json' | 'compact' | 'validate' | 'fmt';
+  files: string[];
+  rt: boolean;
+  dsf: DSF[];
+  stringify: StringifyOptions;
+  check: boolean;
+  write: boolean;
+  diff: boolean;
+}
+
+/**
+ * Thrown for invalid arguments
+ */
+class UsageError extends Error {}
+
+/**
+ * Runs the `hjson` command
+ * @param args - The command-line arguments, without the program name
+ * @param io - Where to read the input and write the output
+ * @returns The exit code: 0 on success, 1 for invalid input, 2 for usage or read errors
+ */
+export async function runCli(args: string[], io: CliIo): Promise<number> {
+  let opt: CliOptions | undefined;
+  try {
+    opt = parseArgs(args);
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    io.stderr("hjson: " + e.message + "\nTry 'hjson --help' for more information.\n");
+    return 2;
+  }
+  if (!opt) {
+    io.stdout(usage);
+    return 0;
+  }
+  if (opt.output === 'fmt') return runFmt(opt, io);
+
+  const file = opt.files[0] === '-' ? undefined : opt.files[0];
+  const name = file ?? "<stdin>";
+  let text: string;
+  try {
+    text = await io.read(file);
+  } catch (e: any) {
+    io.stderr("hjson: cannot read " + name + ": " + (e?.message ?? e) + "\n");
+    return 2;
+  }
+
+  const { value, diagnostics } = parseWithDiagnostics(text, {
+    keepWhitespaceAndComments: opt.rt,
+    dsf: opt.dsf,
+  });
+  diagnostics.forEach(d => io.stderr(formatDiagnostic(name, d)));
+  if (diagnostics.some(d => d.severity === 'error')) return 1;
+
+  switch (opt.output) {
+    case 'validate': break;
+    case 'json': io.stdout(JSON.stringify(value, null, 2) + "\n"); break;
+    case 'compact': io.stdout(JSON.stringify(value) + "\n"); break;
+    default: io.stdout(stringify(value, { ...opt.stringify, keepWhitespaceAndComments: opt.rt, dsf: opt.dsf }) + "\n");
+  }
+  return 0;
+}
+
+/**
+ * Runs `hjson fmt`
+ * @param opt - The options of the command
+ * @param io - Where to read the input and write the output
+ * @returns The exit code: 1 if a file is invalid or, with --check, not formatted
+ */
+async function runFmt(opt: CliOptions, io: CliIo): Promise<number> {
+  if (opt.write && !io.write || !io.readDir && opt.files.some(f => /[*?{[]/.test(f)))
+    return fail(io, "fmt: not supported by this environment");
+  let files: string[];
+  try {
+    files = await expandGlobs(opt.files, io.readDir!);
+  } catch (e: any) {
+    return fail(io, "fmt: cannot list files: " + (e?.message ?? e));
+  }
+  if (!files.length) return fail(io, "fmt: no files match " + opt.files.join(' '));
+
+  const configs = new Map<string, Promise<StringifyOptions | undefined>>();
+  const cwd = io.cwd?.() ?? '';
+  let code = 0;
+
+  for (const file of files) {
+    let text: string, rc: StringifyOptions | undefined;
+    try {
+      text = await io.read(file);
+      rc = await findConfig(dirname(resolvePath(cwd, file)), io, configs);
+    } catch (e: any) {
+      return fail(io, "fmt: " + (e?.message ?? e));
+    }
+
+    let formatted: string;
+    try {
+      formatted = format(text, { ...rc, ...opt.stringify });
+    } catch (e) {
+      if (!(e instanceof HjsonSyntaxError)) throw e;
+      parseWithDiagnostics(text).diagnostics.forEach(d => io.stderr(formatDiagnostic(file, d)));
+      code = 1;
+      continue;
+    }
+
+    const changed = formatted !== text;
+    if (opt.check || opt.write) {
+      if (!changed) continue;
+      io.stdout(file + "\n");
+      if (opt.write) await io.write!(file, formatted);
+      else code = 1;
+    } else if (!opt.diff) io.stdout(formatted);
+    if (opt.diff) io.stdout(unifiedDiff(text, formatted, file));
+  }
+  return code;
+}
+
+/**
+ * Reads the formatting options of the nearest `.hjsonfmtrc` in a directory or above it
+ * @param dir - The directory
+ * @param io - Where to read the files
+ * @param configs - The options found for each directory so far
+ * @returns The options, undefined if there is no config file
+ */
+function findConfig(dir: string, io: CliIo, configs: Map<string, Promise<StringifyOptions | undefined>>): Promise<StringifyOptions | undefined> {
+  let config = configs.get(dir);
+  if (!config) {
+    const file = dir === '.' ? rcName : dir.replace(/\/$/, '') + '/' + rcName;
+    config = io.read(file).then(
+      text => {
+        let options: any;
+        try {
+          options = parse(text);
+        } catch (e: any) {
+          throw new Error("invalid " + file + ": " + e.message);
+        }
+        if (options === null || typeof options !== 'object' || Array.isArray(options))
+          throw new Error("invalid " + file + ": expected an object of stringify options");
+        return options as StringifyOptions;
+      },
+      () => dirname(dir) === dir ? undefined : findConfig(dirname(dir), io, configs)
+    );
+    configs.set(dir, config);
+  }
+  return config;
+}
+
+/**
+ * Exits with an error message
+ * @param io - Where to write the message
+ * @param message - The message
+ * @returns The exit code 2
+ */
+function fail(io: CliIo, message: string): number {
+  io.stderr("hjson " + message + "\n");
+  return 2;
+}
+
+/**
+ * Collects the options from the command-line arguments
+ * Values can follow their flag as the next argument or after `=`.
+ * @param args - The command-line arguments
+ * @returns The options, undefined when help was requested
+ */
+function parseArgs(args: string[]): CliOptions | undefined {
+  const fmt = args[0] === 'fmt';
+  const opt: CliOptions = { output: fmt ? 'fmt' : 'hjson', files: [], rt: false, dsf: [], stringify: {}, check: false, write: false, diff: false };
+
+  for (let i = fmt ? 1 : 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-' || !arg.startsWith('-')) {
+      opt.files.push(arg);
+      continue;
+    }
+    const eq = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = eq < 0 ? arg : arg.slice(0, eq);
+    const value = (): string => {
+      if (eq >= 0) return arg.slice(eq + 1);
+      if (i + 1 >= args.length) throw new UsageError("option " + flag + " needs a value");
+      return args[++i];
+    };
+    // Options that only apply with or without fmt
+    const only = (forFmt: boolean): void => {
+      if (fmt !== forFmt) throw new UsageError("option " + flag + (fmt ? " is not supported by fmt" : " only applies to fmt"));
+    };
+
+    switch (flag) {
+      case '-h': case '--help': return undefined;
+      case '-j': case '--json': only(false); opt.output = 'json'; break;
+      case '-c': case '--compact': only(false); opt.output = 'compact'; break;
+      case '--validate': only(false); opt.output = 'validate'; break;
+      case '--rt': only(false); opt.rt = true; break;
+      case '--check': only(true); opt.check = true; break;
+      case '--write': only(true); opt.write = true; break;
+      case '--diff': only(true); opt.diff = true; break;
+      case '--separator': opt.stringify.separator = true; break;
+      case '--braces-same-line': opt.stringify.bracesSameLine = true; break;
+      case '--quotes': {
+        const quotes = value();
+        if (quotes !== 'min' && quotes !== 'keys' && quotes !== 'strings' && quotes !== 'all')
+          throw new UsageError("invalid --quotes '" + quotes + "', expected min, keys, strings or all");
+        opt.stringify.quotes = quotes;
+        break;
+      }
+      case '--space': {
+        const space = value();
+        opt.stringify.space = /^\d+$/.test(space) ? Number(space) : space;
+        break;
+      }
+      case '--dsf':
+        only(false);
+        value().split(',').filter(n => n).forEach(n => {
+          if (!Object.prototype.hasOwnProperty.call(std, n))
+            throw new UsageError("unknown DSF '" + n + "', expected any of " + Object.keys(std).join(', '));
+          opt.dsf.push(std[n as keyof typeof std]());
+        });
+        break;
+      default:
+        throw new UsageError("unknown option " + flag);
+    }
+  }
+
+  if (fmt) {
+    if (opt.check && opt.write) throw new UsageError("--check and --write cannot be combined");
+    if (!opt.files.length) throw new UsageError("fmt needs files or glob patterns");
+  } else if (opt.files.length > 1) throw new UsageError("expected one input file, got " + opt.files.length);
+  return opt;
+}
+
+/**
+ * Formats a diagnostic as `file:line:column: severity: message`
+ * @param name - The file name
+ * @param d - The diagnostic
+ */
+function formatDiagnostic(name: string, d: Diagnostic): string {
+  let res = name + ":" + d.line + ":" + d.column + ": " + d.severity + ": " + d.message + " [" + d.code + "]\n";
+  if (d.hint) res += "  hint: " + d.hint + "\n";
+  return res;
+}
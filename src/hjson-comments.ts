@@ -3,6 +3,7 @@
  * Provides functionality for extracting, merging and managing comments in Hjson
  */
 
+import { Comments } from './types/comments';
 import * as common from './hjson-common';
 
 /**
@@ -43,7 +44,7 @@ export function extractComments(value: any, root?: boolean): any {
         hasComments = true;
       }
     }
-    if (!hasComments && comments?.e) {
+    if (comments?.e) {
       res.e = makeComment(comments.e[0], comments.e[1]);
       hasComments = true;
     }
@@ -71,12 +72,12 @@ export function extractComments(value: any, root?: boolean): any {
     // Extract comments
     for (i = 0, length = keys.length; i < length; i++) {
       const key = keys[i];
-      if (saveComment(res.s, key, comments?.c?.[key], extractComments(value[key]))) {
+      if (saveComment(res.s, key, common.getOwn(comments?.c, key), extractComments(value[key]))) {
         hasComments = true;
       }
     }
     
-    if (!hasComments && comments?.e) {
+    if (comments?.e) {
       res.e = makeComment(comments.e[0], comments.e[1]);
       hasComments = true;
     }
@@ -100,11 +101,11 @@ export function extractComments(value: any, root?: boolean): any {
 function saveComment(res: any, key: string | number, ck: any, c: any): boolean {
   if (!res || !ck && !c) return false;
 
-  res[key] = c || {};
+  common.setOwn(res, String(key), c || {});
   if (ck) {
     if (ck[0]) res[key].b = ck[0];
     if (ck[1]) res[key].a = ck[1];
-    if (ck[2]) res[key].x = ck[2];
+    if (ck[2]) res[key].n = ck[2];
   }
   return true;
 }
@@ -174,7 +175,7 @@ function dropAll(comments: any, dropped: any[], path: any[]): void {
   } else if (comments.o) {
     comments.o.forEach((key: string) => {
       const kpath = path.slice().concat([key]);
-      const c = comments.s[key];
+      const c = common.getOwn(comments.s, key);
       if (c) {
         dropped.push(droppedComment(kpath, c));
         dropAll(c.x, dropped, kpath);
@@ -186,6 +187,14 @@ function dropAll(comments: any, dropped: any[], path: any[]): void {
     dropped.push(droppedComment(path, comments.e));
 }
 
+/**
+ * Converts an extracted member comment back into its slot
+ * @param c The extracted comment with b, a and the number spelling n
+ */
+function memberComment(c: any): string[] {
+  return c.n !== undefined ? [c.b, c.a, c.n] : [c.b, c.a];
+}
+
 /**
  * Merges comments recursively
  */
@@ -212,7 +221,7 @@ function merge(comments: any, value: any, dropped: any[], path: any[]): void {
         if (c) {
           const kpath = path.slice().concat([i]);
           if (i < value.length) {
-            setComments.a[i] = [c.b, c.a];
+            setComments.a[i] = memberComment(c);
             merge(c.x, value[i], dropped, kpath);
           } else {
             dropped.push(droppedComment(kpath, c));
@@ -221,16 +230,16 @@ function merge(comments: any, value: any, dropped: any[], path: any[]): void {
         }
       }
     }
-    if (i === 0 && comments.e) setComments.e = [comments.e.b, comments.e.a];
+    if (comments.e) setComments.e = [comments.e.b, comments.e.a];
   } else {
     (comments.o || []).forEach((key: string) => {
       const kpath = path.slice().concat([key]);
-      const c = comments.s[key];
+      const c = common.getOwn(comments.s, key);
       if (Object.prototype.hasOwnProperty.call(value, key)) {
         setComments.o?.push(key);
         if (c) {
           if (!setComments.c) setComments.c = {};
-          setComments.c[key] = [c.b, c.a];
+          common.setOwn(setComments.c, key, memberComment(c));
           merge(c.x, value[key], dropped, kpath);
         }
       } else if (c) {
@@ -255,6 +264,99 @@ function rootComment(value: any, setText: string | null, header: number): string
   return comment.r[header] || "";
 }
 
+/**
+ * Gets the comments of an object, creating them if needed
+ * @param obj The object
+ */
+export function objectComments(obj: any): Comments & { c: Record<string, any>, o: string[] } {
+  const comments = common.getComment(obj) || common.createComment(obj, {});
+  if (!comments.c) comments.c = {};
+  if (!comments.o) comments.o = Object.keys(obj);
+  return comments;
+}
+
+/**
+ * Gets the comments of an array, creating them if needed
+ * The comment slots are padded to the length of the array.
+ * @param array The array
+ */
+export function arrayComments(array: any[]): Comments & { a: any[] } {
+  const comments = common.getComment(array) || common.createComment(array, {});
+  if (!comments.a) comments.a = [];
+  while (comments.a.length < array.length) comments.a.push(["", ""]);
+  return comments;
+}
+
+/**
+ * Splits the comment after a value into its first line and the lines below
+ * @param after The comment after a value
+ * @returns The first line and the remainder starting with its newline
+ */
+export function splitAfter(after: string | undefined): [string, string] {
+  if (!after) return ["", ""];
+  const nl = after.indexOf('\n');
+  return nl < 0 ? [after, ""] : [after.slice(0, nl), after.slice(nl)];
+}
+
+/**
+ * Gets the [before, after] comment slot of a member
+ * @param parent The object or array
+ * @param key The key or index
+ */
+export function commentSlot(parent: any, key: string | number): [string, string] {
+  if (Array.isArray(parent)) {
+    const a = arrayComments(parent).a;
+    return a[key as number] || (a[key as number] = ["", ""]);
+  }
+  const c = objectComments(parent).c;
+  if (!Object.prototype.hasOwnProperty.call(c, key)) common.setOwn(c, key as string, ["", ""]);
+  return c[key];
+}
+
+/**
+ * Moves the comments before the closing brace/bracket to a new last member
+ * @param from The comment slot of the previous last member
+ * @param to The comment slot of the new last member
+ */
+export function moveClosing(from: [string, string], to: [string, string]): void {
+  const [first, closing] = splitAfter(from[1]);
+  from[1] = first;
+  to[1] += closing;
+}
+
+/**
+ * Removes a member or element together with its comments
+ * Comments before the closing brace/bracket move to the new last member.
+ * @param parent The object or array
+ * @param key The key, or the index of an existing element
+ */
+export function removeEntry(parent: any, key: string | number): void {
+  const comments = common.getComment(parent);
+  let closing = ""; // Comments before the closing brace/bracket, kept with the new last member
+  if (Array.isArray(parent)) {
+    if (comments?.a) {
+      closing = key === parent.length - 1 ? splitAfter(comments.a[key as number]?.[1])[1] : "";
+      comments.a.splice(key as number, 1);
+    }
+    parent.splice(key as number, 1);
+    if (closing) {
+      if (parent.length > 0) commentSlot(parent, parent.length - 1)[1] += closing;
+      else comments.e = [closing.slice(1) + (comments.e?.[0] ? '\n' + comments.e[0] : ""), ""];
+    }
+  } else {
+    const order: string[] = (comments?.o || Object.keys(parent))
+      .filter((k: string) => Object.prototype.hasOwnProperty.call(parent, k));
+    if (order[order.length - 1] === key) closing = splitAfter(common.getOwn(comments?.c, key)?.[1])[1];
+    if (comments?.o) comments.o = comments.o.filter((k: string) => k !== key);
+    if (comments?.c) delete comments.c[key];
+    delete parent[key];
+    if (closing) {
+      if (order.length > 1) commentSlot(parent, order[order.length - 2])[1] += closing;
+      else comments.e = [closing.slice(1) + (comments.e?.[0] ? '\n' + comments.e[0] : ""), ""];
+    }
+  }
+}
+
 /**
  * Export module functions
  */
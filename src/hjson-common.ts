@@ -4,6 +4,7 @@
 
 import os from 'os';
 import { Comments } from './types/comments';
+import { SourcePosition } from './types/location';
 
 /** End of line character sequence */
 let _EOL = os.EOL || '\n';
@@ -89,6 +90,112 @@ export function tryParseNumber(text: string, stopAtNext?: boolean): number | und
   else return number;
 }
 
+/**
+ * Creates a lookup from offsets to line/column positions
+ * @param text The source text
+ * @returns A function converting a zero-based offset into a position
+ */
+export function createLineIndex(text: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+
+  return (offset: number) => {
+    let lo = 0, hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1, offset };
+  };
+}
+
+/**
+ * Checks if a key is dangerous when used on plain objects
+ * `__proto__` changes the prototype when assigned, `constructor` and
+ * `prototype` are commonly trusted by consumers.
+ * @param key The key to check
+ * @returns True for `__proto__`, `constructor` and `prototype`
+ */
+export function isProtoKey(key: string): boolean {
+  return key === '__proto__' || key === 'constructor' || key === 'prototype';
+}
+
+/**
+ * Sets a key as an own enumerable data property
+ * Unlike assignment, this never invokes the `__proto__` setter.
+ * @param obj The object
+ * @param key The key
+ * @param value The value
+ */
+export function setOwn(obj: any, key: string, value: any): void {
+  if (isProtoKey(key)) Object.defineProperty(obj, key, { value, writable: true, enumerable: true, configurable: true });
+  else obj[key] = value;
+}
+
+/**
+ * Gets an own property, ignoring inherited ones such as `constructor`
+ * @param obj The object, may be undefined
+ * @param key The key
+ * @returns The value, or undefined if the object has no such own property
+ */
+export function getOwn(obj: any, key: string | number): any {
+  return obj && Object.prototype.hasOwnProperty.call(obj, key) ? obj[key] : undefined;
+}
+
+/**
+ * Converts a list of keys into a JSON pointer
+ * @param keys The keys
+ * @returns The JSON pointer
+ */
+export function pathPointer(keys: (string | number)[]): string {
+  return keys.map(k => '/' + String(k).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Compares two values structurally, ignoring comments
+ * @param a The first value
+ * @param b The second value
+ * @returns True if the values are equal
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(k => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+}
+
+/**
+ * Checks if a value is a plain object, as created by the parser
+ * @param v The value
+ * @returns True for objects with the `Object` or a null prototype
+ */
+export function isPlainObject(v: any): boolean {
+  if (v === null || typeof v !== 'object') return false;
+  const proto = Object.getPrototypeOf(v);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep-merges two objects into a new one
+ * Plain objects are merged key by key, any other value of `over` replaces the one of `base`.
+ * @param base The object merged first
+ * @param over The object whose values win
+ * @returns The merged object, with the prototype of `over`
+ */
+export function deepMerge(base: any, over: any): any {
+  const res = Object.create(Object.getPrototypeOf(over));
+  Object.keys(base).forEach(key => setOwn(res, key, base[key]));
+  Object.keys(over).forEach(key => {
+    const prev = getOwn(res, key);
+    setOwn(res, key, isPlainObject(prev) && isPlainObject(over[key]) ? deepMerge(prev, over[key]) : over[key]);
+  });
+  return res;
+}
+
 /**
  * Creates a comment object for a value
  * @param value The value to attach comments to
@@ -159,6 +266,14 @@ export default {
   getEOL,
   setEOL,
   tryParseNumber,
+  createLineIndex,
+  isProtoKey,
+  setOwn,
+  getOwn,
+  pathPointer,
+  deepEqual,
+  isPlainObject,
+  deepMerge,
   createComment,
   removeComment,
   getComment,
@@ -0,0 +1,409 @@
+/**
+ * Hjson concrete syntax tree
+ * Parses Hjson into a lossless tree with source ranges for every node
+ */
+
+import { ParseOptions } from './types/parse-options';
+import {
+  CstArray, CstComma, CstDocument, CstKey, CstMember, CstNode,
+  CstObject, CstPunctuator, CstString, CstValue
+} from './types/cst';
+import { HjsonErrorCode } from './types/errors';
+import * as common from './hjson-common';
+import { syntaxError } from './hjson-error';
+
+/**
+ * Parses a Hjson string into a concrete syntax tree
+ * Accepts the same grammar as `parse` and throws the same errors.
+ * @param source - The Hjson string to parse
+ * @param opt - Optional parsing configuration, only `legacyRoot` is used
+ * @returns The document node
+ */
+export function parseToCst(source: string, opt?: ParseOptions): CstDocument {
+  if (typeof source !== "string") throw new Error("source is not a string");
+  const text = source;
+  const legacyRoot = opt?.legacyRoot !== false; // Default to true
+  let at = 0; // Position of the current character
+
+  // Character escape mappings
+  const escapee: Record<string, string> = {
+    '"': '"',
+    '\'': '\'',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t'
+  };
+
+  /**
+   * Throws a syntax error
+   * @param m - The error message
+   * @param code - The error code
+   * @param offset - Position of the error (default: current position)
+   */
+  function error(m: string, code: HjsonErrorCode, offset: number = at): never {
+    throw syntaxError(text, m, code, offset);
+  }
+
+  /**
+   * Determines if a character is a punctuator
+   * @param c - The character to check
+   */
+  function isPunctuatorChar(c: string): boolean {
+    return c === '{' || c === '}' || c === '[' || c === ']' || c === ',' || c === ':';
+  }
+
+  /**
+   * Gets the character at a position, or '' past the end
+   * @param i - The position
+   */
+  function charAt(i: number): string {
+    return text.charAt(i);
+  }
+
+  /**
+   * Consumes a single punctuator character
+   */
+  function punctuator(): CstPunctuator {
+    const start = at++;
+    return { type: 'punctuator', start, end: at, raw: text[start] as CstPunctuator['raw'] };
+  }
+
+  /**
+   * Consumes a comma
+   */
+  function comma(): CstComma {
+    const start = at++;
+    return { type: 'comma', start, end: at, raw: ',' };
+  }
+
+  /**
+   * Consumes whitespace and comments, appending them as nodes
+   * @param into - The children to append to
+   */
+  function trivia(into: CstNode[]): void {
+    for (;;) {
+      let start = at;
+      while (at < text.length && text[at] <= ' ') at++;
+      if (at > start) into.push({ type: 'whitespace', start, end: at, raw: text.slice(start, at) });
+
+      start = at;
+      const c = charAt(at);
+      if (c === '#' || c === '/' && charAt(at + 1) === '/') {
+        while (at < text.length && text[at] !== '\n') at++;
+        if (text[at - 1] === '\r') at--; // Keep CRLF together in the following whitespace
+        into.push({ type: 'comment', style: c === '#' ? '#' : '//', start, end: at, raw: text.slice(start, at) });
+      } else if (c === '/' && charAt(at + 1) === '*') {
+        const close = text.indexOf('*/', at + 2);
+        at = close < 0 ? text.length : close + 2;
+        into.push({ type: 'comment', style: '/*', start, end: at, raw: text.slice(start, at) });
+      } else break;
+    }
+  }
+
+  /**
+   * Scans a quoted string starting at the current quote character
+   * @param allowML - Whether a triple quote starts a multiline string
+   * @returns The unescaped value and whether it was a multiline string
+   */
+  function quoted(allowML: boolean): { value: string, multiline: boolean } {
+    let string = '';
+    const exitCh = text[at++];
+    while (at < text.length) {
+      const c = text[at++];
+      if (c === exitCh) {
+        if (allowML && exitCh === "'" && charAt(at) === "'" && string.length === 0) {
+          // Triple quote indicates a multiline string
+          at++;
+          return { value: mlString(at - 3), multiline: true };
+        }
+        return { value: string, multiline: false };
+      }
+      if (c === '\\') {
+        const e = charAt(at++);
+        if (e === 'u') {
+          let uffff = 0;
+          for (let i = 0; i < 4; i++) {
+            const h = charAt(at++);
+            if (!/^[0-9a-fA-F]$/.test(h)) error("Bad \\u char " + h, HjsonErrorCode.BadUnicodeEscape, at - 1);
+            uffff = uffff * 16 + parseInt(h, 16);
+          }
+          string += String.fromCharCode(uffff);
+        } else if (typeof escapee[e] === 'string') {
+          string += escapee[e];
+        } else error("Bad string", HjsonErrorCode.BadEscape, at - 1);
+      } else if (c === '\n' || c === '\r') {
+        error("Bad string containing newline", HjsonErrorCode.StringNewline, at - 1);
+      } else {
+        string += c;
+      }
+    }
+    error("Bad string", HjsonErrorCode.UnterminatedString, text.length);
+  }
+
+  /**
+   * Scans the body of a multiline string following the opening '''
+   * @param open - Position of the opening '''
+   * @returns The string value without indentation
+   */
+  function mlString(open: number): string {
+    let string = '', triple = 0;
+
+    // Get indentation level
+    let indent = 0;
+    while (open - indent - 1 >= 0 && text[open - indent - 1] !== '\n') indent++;
+
+    // Helper to skip indentation
+    function skipIndent() {
+      let skip = indent;
+      while (at < text.length && text[at] <= ' ' && text[at] !== '\n' && skip-- > 0) at++;
+    }
+
+    // Skip whitespace to newline
+    while (at < text.length && text[at] <= ' ' && text[at] !== '\n') at++;
+    if (text[at] === '\n') { at++; skipIndent(); }
+
+    // Parse multiline string
+    for (;;) {
+      const c = charAt(at);
+      if (!c) {
+        error("Bad multiline string", HjsonErrorCode.UnterminatedMultilineString);
+      } else if (c === '\'') {
+        triple++;
+        at++;
+        if (triple === 3) {
+          if (string.slice(-1) === '\n') string = string.slice(0, -1); // Remove last EOL
+          return string;
+        } else continue;
+      } else {
+        while (triple > 0) {
+          string += '\'';
+          triple--;
+        }
+      }
+      if (c === '\n') {
+        string += '\n';
+        at++;
+        skipIndent();
+      } else {
+        if (c !== '\r') string += c;
+        at++;
+      }
+    }
+  }
+
+  /**
+   * Parses an object key
+   */
+  function keyname(): CstKey {
+    const start = at;
+    const c = charAt(at);
+    if (c === '"' || c === "'") {
+      const { value } = quoted(false);
+      return { type: 'key', style: c === '"' ? 'double' : 'single', start, end: at, raw: text.slice(start, at), value };
+    }
+
+    while (at < text.length && text[at] > ' ' && !isPunctuatorChar(text[at])) at++;
+    const end = at;
+    if (end === start && charAt(at) === ':')
+      error("Found ':' but no key name (for an empty key name use quotes)", HjsonErrorCode.EmptyKey);
+
+    // Only whitespace may follow a quoteless key name, look for the reason if anything else does
+    let i = end;
+    while (i < text.length && text[i] <= ' ') i++;
+    if (charAt(i) !== ':' || end === start) {
+      for (; i < text.length; i++) {
+        if (text[i] === ':') error("Found whitespace in your key name (use quotes to include)", HjsonErrorCode.KeyWhitespace, end);
+        if (isPunctuatorChar(text[i])) break;
+      }
+      if (i >= text.length) error("Found EOF while looking for a key name (check your syntax)", HjsonErrorCode.KeyEndOfInput, text.length);
+      error("Found '" + text[i] + "' where a key name was expected (check your syntax or use quotes if the key name includes {}[],: or whitespace)", HjsonErrorCode.KeyPunctuator, i);
+    }
+
+    const raw = text.slice(start, end);
+    return { type: 'key', style: 'quoteless', start, end, raw, value: raw };
+  }
+
+  /**
+   * Parses true, false, null, number or unquoted string
+   */
+  function tfnns(): CstValue {
+    const start = at;
+    if (isPunctuatorChar(charAt(at)))
+      error("Found a punctuator character '" + charAt(at) + "' when expecting a quoteless string (check your syntax)", HjsonErrorCode.UnexpectedPunctuator);
+
+    for (let i = at + 1; ; i++) {
+      const c = charAt(i);
+      const isEol = c === '\r' || c === '\n' || c === '';
+      if (isEol ||
+        c === ',' || c === '}' || c === ']' ||
+        c === '#' ||
+        c === '/' && (charAt(i + 1) === '/' || charAt(i + 1) === '*')
+        ) {
+        const value = text.slice(start, i);
+        // Trailing whitespace is not part of the value and left for trivia
+        let end = i;
+        while (end > start && text[end - 1] <= ' ') end--;
+        const raw = text.slice(start, end);
+        let node: CstValue | undefined;
+
+        // Check for true, false, null, or number values
+        const chf = value[0];
+        switch (chf) {
+          case 'f': if (value.trim() === "false") node = { type: 'literal', start, end, raw, value: false }; break;
+          case 'n': if (value.trim() === "null") node = { type: 'literal', start, end, raw, value: null }; break;
+          case 't': if (value.trim() === "true") node = { type: 'literal', start, end, raw, value: true }; break;
+          default:
+            if (chf === '-' || chf >= '0' && chf <= '9') {
+              const n = common.tryParseNumber(value);
+              if (n !== undefined) node = { type: 'number', start, end, raw, value: n };
+            }
+        }
+        if (!node && isEol) node = { type: 'string', style: 'quoteless', start, end, raw, value: value.trim() };
+        if (node) {
+          at = end;
+          return node;
+        }
+      }
+    }
+  }
+
+  /**
+   * Parses a quoted or multiline string value
+   */
+  function string(): CstString {
+    const start = at;
+    const exitCh = text[at];
+    const { value, multiline } = quoted(true);
+    const style = multiline ? 'multiline' : exitCh === '"' ? 'double' : 'single';
+    return { type: 'string', style, start, end: at, raw: text.slice(start, at), value };
+  }
+
+  /**
+   * Parses an array value
+   */
+  function array(): CstArray {
+    const node: CstArray = { type: 'array', start: at, end: at, elements: [], children: [] };
+    const children = node.children;
+    children.push(punctuator());
+    trivia(children);
+    while (at < text.length) {
+      if (text[at] === ']') {
+        children.push(punctuator());
+        node.end = at;
+        return node;
+      }
+      const v = value();
+      children.push(v);
+      node.elements.push(v);
+      trivia(children);
+      // In Hjson the comma is optional and trailing commas are allowed
+      if (charAt(at) === ',') { children.push(comma()); trivia(children); }
+    }
+    error("End of input while parsing an array (missing ']')", HjsonErrorCode.UnterminatedArray);
+  }
+
+  /**
+   * Parses a member of an object
+   */
+  function member(): CstMember {
+    const start = at;
+    const key = keyname();
+    const children: CstNode[] = [key];
+    trivia(children);
+    if (charAt(at) !== ':') error("Expected ':' instead of '" + charAt(at) + "'", HjsonErrorCode.MissingColon);
+    children.push(punctuator());
+    trivia(children);
+    const v = value();
+    children.push(v);
+    return { type: 'member', start, end: at, key, value: v, children };
+  }
+
+  /**
+   * Parses an object value
+   * @param withoutBraces - Whether the object is without braces (root object)
+   */
+  function object(withoutBraces: boolean): CstObject {
+    const node: CstObject = { type: 'object', start: at, end: at, braces: !withoutBraces, members: [], children: [] };
+    const children = node.children;
+    if (!withoutBraces) children.push(punctuator());
+    trivia(children);
+    while (at < text.length) {
+      if (text[at] === '}' && !withoutBraces) {
+        children.push(punctuator());
+        node.end = at;
+        return node;
+      }
+      const m = member();
+      children.push(m);
+      node.members.push(m);
+      trivia(children);
+      // In Hjson the comma is optional and trailing commas are allowed
+      if (charAt(at) === ',') { children.push(comma()); trivia(children); }
+    }
+    if (!withoutBraces) error("End of input while parsing an object (missing '}')", HjsonErrorCode.UnterminatedObject);
+    node.end = at;
+    return node;
+  }
+
+  /**
+   * Parses any Hjson value
+   */
+  function value(): CstValue {
+    switch (charAt(at)) {
+      case '{': return object(false);
+      case '[': return array();
+      case "'":
+      case '"': return string();
+      default: return tfnns();
+    }
+  }
+
+  /**
+   * Parses the root value and checks for trailing characters
+   * @param root - Parses the root value after leading trivia
+   */
+  function document(root: () => CstValue): CstDocument {
+    at = 0;
+    const children: CstNode[] = [];
+    trivia(children);
+    const v = root();
+    children.push(v);
+    trivia(children);
+    if (at < text.length) error("Syntax error, found trailing characters", HjsonErrorCode.TrailingCharacters);
+    return { type: 'document', start: 0, end: text.length, value: v, children };
+  }
+
+  if (!legacyRoot) return document(value);
+
+  try {
+    // Assume we have a root object without braces unless it starts with one
+    return document(() => {
+      const c = charAt(at);
+      return c === '{' || c === '[' ? value() : object(true);
+    });
+  } catch (e) {
+    // Test if we are dealing with a single JSON value instead (true/false/null/num/"")
+    try { return document(value); }
+    catch { throw e; } // Throw original error
+  }
+}
+
+/**
+ * Prints a syntax tree back to Hjson text
+ * Printing an unmodified tree reproduces the parsed text exactly.
+ * @param node - The node to print
+ * @returns The source text of the node
+ */
+export function printCst(node: CstNode): string {
+  if ('children' in node) return node.children.map(printCst).join('');
+  return node.raw;
+}
+
+export default {
+  parseToCst,
+  printCst
+}
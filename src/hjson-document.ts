@@ -0,0 +1,209 @@
+/**
+ * Hjson document editing
+ * Provides path based editing of parsed Hjson that keeps comments and key order
+ */
+
+import { ParseOptions } from './types/parse-options';
+import { StringifyOptions } from './types/stringify-options';
+import { CommentPosition, DocumentPath, HjsonDocument } from './types/document';
+import * as common from './hjson-common';
+import { arrayComments, commentSlot, moveClosing, removeEntry, splitAfter } from './hjson-comments';
+import parse from './hjson-parse';
+import stringify from './hjson-stringify';
+
+/**
+ * Converts a document path into a list of keys
+ * @param path - JSON pointer or array of keys
+ * @returns The keys
+ */
+export function pathKeys(path: DocumentPath): (string | number)[] {
+  if (Array.isArray(path)) return path;
+  if (path === '') return [];
+  if (path[0] !== '/') throw new Error("invalid JSON pointer: " + path);
+  return path.slice(1).split('/').map(p => p.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Checks if a value is an object or array
+ * @param value - The value to check
+ */
+function isContainer(value: any): boolean {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Converts a key into an array index
+ * @param array - The array
+ * @param key - The key, a number, a numeric string or '-' for the end
+ * @returns The index, or -1 if the key is not an index
+ */
+function arrayIndex(array: any[], key: string | number): number {
+  if (key === '-') return array.length;
+  if (typeof key === 'number') return Number.isInteger(key) && key >= 0 ? key : -1;
+  return /^(0|[1-9]\d*)$/.test(key) ? parseInt(key, 10) : -1;
+}
+
+/**
+ * Creates an editable document from a value
+ * The value is usually obtained from `rt.parse`; it is edited in place.
+ * @param value - The root value
+ * @param source - The text the value was parsed from; when given, unchanged
+ *   parts are copied from it by `toString`
+ * @param sourceOptions - The options the source was parsed with
+ * @returns The document
+ */
+export function createDocument(value: any, source?: string, sourceOptions?: ParseOptions): HjsonDocument {
+  let root = value;
+
+  /**
+   * Gets the value at a list of keys
+   * @param keys - The keys
+   */
+  function resolve(keys: (string | number)[]): any {
+    let v = root;
+    for (const key of keys) {
+      if (!isContainer(v)) return undefined;
+      if (Array.isArray(v)) {
+        const i = arrayIndex(v, key);
+        v = i >= 0 ? v[i] : undefined;
+      } else {
+        v = Object.prototype.hasOwnProperty.call(v, key) ? v[key] : undefined;
+      }
+    }
+    return v;
+  }
+
+  /**
+   * Gets the container and key of a non-root path
+   * @param keys - The keys, at least one
+   * @param mustExist - Whether the value itself must exist
+   */
+  function member(keys: (string | number)[], mustExist: boolean): { parent: any, key: string | number } {
+    const parent = resolve(keys.slice(0, -1));
+    if (!isContainer(parent)) throw new Error("path not found: " + common.pathPointer(keys.slice(0, -1)));
+    let key = keys[keys.length - 1];
+    if (Array.isArray(parent)) {
+      key = arrayIndex(parent, key);
+      if (key < 0 || key > parent.length || mustExist && key === parent.length)
+        throw new Error("invalid array index: " + common.pathPointer(keys));
+    } else {
+      key = String(key);
+      if (mustExist && !Object.prototype.hasOwnProperty.call(parent, key))
+        throw new Error("path not found: " + common.pathPointer(keys));
+    }
+    return { parent, key };
+  }
+
+  /**
+   * Inserts a value into an array and its comment slots
+   * @param array - The array
+   * @param index - The position to insert at
+   * @param value - The value to insert
+   */
+  function insertAt(array: any[], index: number, value: any): void {
+    const comments = common.getComment(array);
+    if (comments?.a) {
+      const a = arrayComments(array).a;
+      a.splice(index, 0, ["", ""]);
+      if (index > 0 && index === array.length) moveClosing(a[index - 1], a[index]);
+    }
+    array.splice(index, 0, value);
+  }
+
+  return {
+    get value() {
+      return root;
+    },
+
+    get(path: DocumentPath): any {
+      return resolve(pathKeys(path));
+    },
+
+    set(path: DocumentPath, value: any): void {
+      const keys = pathKeys(path);
+      if (keys.length === 0) {
+        // Keep the header and footer of the document
+        const r = common.getComment(root)?.r;
+        root = value;
+        if (r && isContainer(value)) common.createComment(value, common.getComment(value) || {}).r = r;
+        return;
+      }
+
+      const { parent, key } = member(keys, false);
+      if (Array.isArray(parent)) {
+        if (key === parent.length) insertAt(parent, key, value);
+        else parent[key as number] = value;
+      } else {
+        const comments = common.getComment(parent);
+        if (comments?.o && comments.o.indexOf(key as string) < 0) {
+          const last = comments.o.filter((k: string) => Object.prototype.hasOwnProperty.call(parent, k)).pop();
+          comments.o.push(key as string);
+          if (last !== undefined && common.getOwn(comments.c, last)) moveClosing(comments.c[last], commentSlot(parent, key));
+        }
+        common.setOwn(parent, key as string, value);
+      }
+    },
+
+    delete(path: DocumentPath): boolean {
+      const keys = pathKeys(path);
+      if (keys.length === 0) throw new Error("cannot delete the root value");
+
+      let parent: any, key: string | number;
+      try {
+        ({ parent, key } = member(keys, true));
+      } catch {
+        return false;
+      }
+
+      removeEntry(parent, key);
+      return true;
+    },
+
+    insert(arrayPath: DocumentPath, index: number, value: any): void {
+      const keys = pathKeys(arrayPath);
+      const array = resolve(keys);
+      if (!Array.isArray(array)) throw new Error("not an array: " + common.pathPointer(keys));
+      if (!Number.isInteger(index) || index < 0 || index > array.length)
+        throw new Error("invalid array index: " + index);
+      insertAt(array, index, value);
+    },
+
+    setComment(path: DocumentPath, text: string, position: CommentPosition): void {
+      const keys = pathKeys(path);
+      const comment = text ? common.forceComment(text) : "";
+
+      if (keys.length === 0) {
+        if (!isContainer(root)) throw new Error("comments can only be attached to objects and arrays");
+        const comments = common.createComment(root, common.getComment(root) || {});
+        if (!comments.r) comments.r = ["", ""];
+        if (position === 'before') comments.r[0] = comment;
+        else comments.r[1] = comment ? " " + comment : "";
+        return;
+      }
+
+      const { parent, key } = member(keys, true);
+      const slot = commentSlot(parent, key);
+      if (position === 'before') slot[0] = comment;
+      else slot[1] = (comment ? " " + comment : "") + splitAfter(slot[1])[1];
+    },
+
+    toString(options?: StringifyOptions): string {
+      return stringify(root, { source, sourceOptions, ...options, keepWhitespaceAndComments: true });
+    },
+  };
+}
+
+/**
+ * Parses Hjson text into an editable document
+ * @param text - The Hjson text
+ * @param opt - Parse options, comments are always kept
+ * @returns The document
+ */
+export function parseDocument(text: string, opt?: ParseOptions): HjsonDocument {
+  return createDocument(parse(text, { ...opt, keepWhitespaceAndComments: true, locations: false }), text, opt);
+}
+
+export default {
+  createDocument,
+  parseDocument
+}
@@ -86,6 +86,42 @@ function isInvalidDsfChar(c: string): boolean {
   return c === '{' || c === '}' || c === '[' || c === ']' || c === ',' || c === '"';
 }
 
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encodes bytes as base64
+ * @param bytes The bytes to encode
+ * @returns The base64 text, padded with '='
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  let res = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = bytes[i] << 16 | (bytes[i+1] ?? 0) << 8 | (bytes[i+2] ?? 0);
+    res += base64Chars[n >> 18 & 63] + base64Chars[n >> 12 & 63] +
+      (i + 1 < bytes.length ? base64Chars[n >> 6 & 63] : '=') +
+      (i + 2 < bytes.length ? base64Chars[n & 63] : '=');
+  }
+  return res;
+}
+
+/**
+ * Decodes base64 text
+ * @param text The base64 text, padded with '='
+ * @returns The decoded bytes
+ */
+function decodeBase64(text: string): Uint8Array {
+  const pad = text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array(text.length / 4 * 3 - pad);
+  for (let i = 0, j = 0; i < text.length; i += 4) {
+    const n = base64Chars.indexOf(text[i]) << 18 | base64Chars.indexOf(text[i+1]) << 12 |
+      (base64Chars.indexOf(text[i+2]) & 63) << 6 | (base64Chars.indexOf(text[i+3]) & 63);
+    bytes[j++] = n >> 16 & 255;
+    if (j < bytes.length) bytes[j++] = n >> 8 & 255;
+    if (j < bytes.length) bytes[j++] = n & 255;
+  }
+  return bytes;
+}
+
 /**
  * Built-in DSF modules
  * Provides default implementations for hex, date, and math DSFs.
@@ -150,6 +186,20 @@ export const dsf: Record<string, DSF> = {
       if (isNaN(value)) return "NaN";
       return undefined;
     }
+  },
+  binary: {
+    name: "binary",
+    description: "Uint8Array and Buffer as base64 prefixed with base64:",
+    parse: function(value: any) {
+      if (typeof value !== 'string') return undefined;
+      if (/^base64:(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(value))
+        return decodeBase64(value.slice(7));
+      return undefined;
+    },
+    stringify: function(value: any) {
+      if (value instanceof Uint8Array) return "base64:" + encodeBase64(value);
+      return undefined;
+    }
   }
 };
 
@@ -170,7 +220,8 @@ export const std = {
       }
     };
   },
-  date: (_opt?: any): DSF => ({...dsf.date})
+  date: (_opt?: any): DSF => ({...dsf.date}),
+  binary: (_opt?: any): DSF => ({...dsf.binary})
 };
 
 export default {
@@ -0,0 +1,163 @@
+/**
+ * Hjson error classes
+ * Provides the structured errors thrown by the parser and the stringifier
+ */
+
+import { HjsonErrorCode } from './types/errors';
+import { IncludeSite } from './types/load';
+
+/**
+ * Error thrown when Hjson text cannot be parsed
+ *
+ * Carries the position of the offending character both as a zero-based
+ * offset into the source and as a one-based line/column pair.
+ */
+export class HjsonSyntaxError extends Error {
+  /** Machine-readable error code */
+  readonly code: HjsonErrorCode;
+
+  /** One-based line number */
+  readonly line: number;
+
+  /** One-based column number */
+  readonly column: number;
+
+  /** Zero-based offset of the first offending character */
+  readonly offset: number;
+
+  /** Zero-based offset just past the offending range */
+  readonly endOffset: number;
+
+  /** Hint about the probable cause, e.g. a bracket swallowed by a quoteless string */
+  hint?: string;
+
+  /**
+   * Creates a new syntax error
+   * @param message - The error message, including the position
+   * @param code - The error code
+   * @param line - One-based line number
+   * @param column - One-based column number
+   * @param offset - Zero-based start offset
+   * @param endOffset - Zero-based end offset
+   */
+  constructor(message: string, code: HjsonErrorCode, line: number, column: number, offset: number, endOffset: number) {
+    super(message);
+    this.name = 'HjsonSyntaxError';
+    this.code = code;
+    this.line = line;
+    this.column = column;
+    this.offset = offset;
+    this.endOffset = endOffset;
+  }
+}
+
+/**
+ * Converts an offset into a one-based line/column pair
+ * @param text - The source text
+ * @param offset - Zero-based offset into the text
+ * @returns The line, column and the offset where the line starts
+ */
+export function lineColumn(text: string, offset: number): { line: number, column: number, lineStart: number } {
+  let line = 1, lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1, lineStart };
+}
+
+/**
+ * Creates a syntax error for a range of the source
+ * @param text - The source text
+ * @param message - The error message without position
+ * @param code - The error code
+ * @param offset - Zero-based start offset
+ * @param endOffset - Zero-based end offset (defaults to one character)
+ * @returns The error, ready to be thrown
+ */
+export function syntaxError(text: string, message: string, code: HjsonErrorCode, offset: number, endOffset?: number): HjsonSyntaxError {
+  offset = Math.max(0, Math.min(offset, text.length));
+  const end = Math.max(offset, Math.min(endOffset ?? offset + 1, text.length));
+  const pos = lineColumn(text, offset);
+  return new HjsonSyntaxError(
+    message + " at line " + pos.line + "," + pos.column + " >>> " + text.substr(pos.lineStart, 20) + " ...",
+    code, pos.line, pos.column, offset, end
+  );
+}
+
+/**
+ * Formats a path for messages, e.g. `servers[0].parent`
+ * @param keys - Keys and indices from the root
+ * @returns The formatted path, `(root)` for the empty path
+ */
+export function formatPath(keys: (string | number)[]): string {
+  if (keys.length === 0) return "(root)";
+  return keys.map((k, i) => typeof k === 'number' ? '[' + k + ']' : (i > 0 ? '.' : '') + k).join('');
+}
+
+/**
+ * Error thrown when a value to stringify contains itself
+ */
+export class HjsonCircularError extends Error {
+  /** Keys and indices from the root to where the object repeats */
+  readonly path: (string | number)[];
+
+  /** Keys and indices from the root to the first occurrence of the object */
+  readonly target: (string | number)[];
+
+  /**
+   * Creates a new circular reference error
+   * @param path - Path where the object repeats
+   * @param target - Path of the first occurrence
+   */
+  constructor(path: (string | number)[], target: (string | number)[]) {
+    super("Circular reference at " + formatPath(path) + ", the same object as " + formatPath(target));
+    this.name = 'HjsonCircularError';
+    this.path = path;
+    this.target = target;
+  }
+}
+
+/**
+ * Error thrown when a file cannot be loaded
+ *
+ * Covers read errors, syntax errors and invalid or cyclic includes. The
+ * message names the file, the position when known and every include leading
+ * to it.
+ */
+export class HjsonLoadError extends Error {
+  /** The file with the problem */
+  readonly file: string;
+
+  /** One-based line of the problem, if known */
+  readonly line?: number;
+
+  /** One-based column of the problem, if known */
+  readonly column?: number;
+
+  /** The includes leading to the file, innermost first */
+  readonly includedFrom: IncludeSite[];
+
+  /**
+   * Creates a new load error
+   * @param message - The error message without position
+   * @param file - The file with the problem
+   * @param position - The position of the problem, if known
+   * @param includedFrom - The includes leading to the file, innermost first
+   * @param cause - The underlying error, such as a syntax or read error
+   */
+  constructor(message: string, file: string, position: { line: number, column: number } | undefined, includedFrom: IncludeSite[], cause?: unknown) {
+    super(
+      file + (position ? ":" + position.line + ":" + position.column : "") + ": " + message +
+      includedFrom.map(site => "\n  included from " + site.file + ":" + site.line + ":" + site.column).join(''),
+      { cause }
+    );
+    this.name = 'HjsonLoadError';
+    this.file = file;
+    this.line = position?.line;
+    this.column = position?.column;
+    this.includedFrom = includedFrom;
+  }
+}
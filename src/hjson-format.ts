@@ -0,0 +1,102 @@
+/**
+ * Hjson formatter
+ * Reformats Hjson text while keeping its comments, and compares the result
+ */
+
+import parse from './hjson-parse';
+import stringify from './hjson-stringify';
+import * as common from './hjson-common';
+import { StringifyOptions } from './types/stringify-options';
+
+/**
+ * Reformats Hjson text, keeping its comments
+ * The result ends with a single end of line, so formatting it again changes nothing.
+ * A root object keeps its braces or their absence unless `emitRootBraces` is set.
+ * @param text - The Hjson text
+ * @param options - Stringify options for the output
+ * @returns The formatted text
+ */
+export function format(text: string, options?: StringifyOptions): string {
+  const { value, locations } = parse(text, { keepWhitespaceAndComments: true, locations: true });
+  // A root object without braces stays without them
+  const root = locations.get('')!.value;
+  const braceless = common.isPlainObject(value) && text[root.start.offset] !== '{';
+  const out = stringify(value, { emitRootBraces: !braceless, ...options, keepWhitespaceAndComments: true });
+  return out.trimEnd() + (options?.eol ?? common.getEOL());
+}
+
+/**
+ * Splits text into lines, each keeping its end of line
+ * @param text - The text
+ */
+function lines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Formats the line range of a hunk, like `3,4`, or `3` for a single line
+ * @param before - The number of lines before the hunk
+ * @param count - The number of lines in the hunk
+ */
+function range(before: number, count: number): string {
+  if (count === 1) return String(before + 1);
+  return (count ? before + 1 : before) + "," + count;
+}
+
+/**
+ * Creates a unified diff between two versions of a file
+ * @param before - The old text
+ * @param after - The new text
+ * @param name - The file name for the header
+ * @param context - The number of unchanged lines around each change
+ * @returns The diff, empty if the texts are the same
+ */
+export function unifiedDiff(before: string, after: string, name: string, context: number = 3): string {
+  if (before === after) return "";
+  const a = lines(before), b = lines(after);
+
+  // Only the part between the common start and end needs aligning
+  let start = 0, endA = a.length, endB = b.length;
+  while (start < endA && start < endB && a[start] === b[start]) start++;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+  const n = endA - start, m = endB - start;
+  // Above the limit the table takes too much memory, the changed part is replaced as a whole
+  const aligned = n * m <= 1000000;
+  const lcs: number[][] = aligned ? Array.from({ length: n + 1 }, () => Array.from({ length: m + 1 }, () => 0)) : [];
+  if (aligned)
+    for (let i = n - 1; i >= 0; i--)
+      for (let j = m - 1; j >= 0; j--)
+        lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+
+  // Every line as [mark, text, lines of a before it, lines of b before it]
+  const ops: [string, string, number, number][] = [];
+  for (let i = 0; i < start; i++) ops.push([' ', a[i], i, i]);
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (aligned && i < n && j < m && a[start + i] === b[start + j]) { ops.push([' ', a[start + i], start + i, start + j]); i++; j++; }
+    else if (i < n && (j >= m || !aligned || lcs[i + 1][j] >= lcs[i][j + 1])) { ops.push(['-', a[start + i], start + i, start + j]); i++; }
+    else { ops.push(['+', b[start + j], start + i, start + j]); j++; }
+  }
+  for (let k = 0; endA + k < a.length; k++) ops.push([' ', a[endA + k], endA + k, endB + k]);
+
+  let res = "--- a/" + name + "\n+++ b/" + name + "\n";
+  for (let k = 0; k < ops.length;) {
+    if (ops[k][0] === ' ') { k++; continue; }
+    // Extend the hunk while changes are close enough to share context
+    let last = k, next = k;
+    while (next < ops.length && (ops[next][0] !== ' ' || next - last <= 2 * context)) {
+      if (ops[next][0] !== ' ') last = next;
+      next++;
+    }
+    const hunk = ops.slice(Math.max(0, k - context), Math.min(ops.length, last + context + 1));
+    const oldCount = hunk.filter(op => op[0] !== '+').length;
+    const newCount = hunk.filter(op => op[0] !== '-').length;
+    res += "@@ -" + range(hunk[0][2], oldCount) + " +" + range(hunk[0][3], newCount) + " @@\n";
+    hunk.forEach(([mark, line]) => {
+      res += mark + line;
+      if (!line.endsWith("\n")) res += "\n\\ No newline at end of file\n";
+    });
+    k = last + context + 1;
+  }
+  return res;
+}
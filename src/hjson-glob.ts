@@ -0,0 +1,84 @@
+/**
+ * Hjson file patterns
+ * Expands glob patterns like `config/**\/*.hjson` for the command-line tool
+ */
+
+import { CliIo } from './types/cli';
+
+/**
+ * Checks if a path segment contains glob syntax
+ * @param segment - The path segment
+ */
+function isGlob(segment: string): boolean {
+  return /[*?{[]/.test(segment);
+}
+
+/**
+ * Converts a glob pattern into a regular expression matching whole paths
+ * Supports `*`, `?`, `**` for any number of directories, `[...]` and `{a,b}`.
+ * @param pattern - The glob pattern, with `/` separators
+ * @returns The regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let res = '', braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i+1] === '*') {
+      // A whole `**` segment also matches no directory at all
+      const segment = (i === 0 || pattern[i-1] === '/') && (i + 2 === pattern.length || pattern[i+2] === '/');
+      if (segment && pattern[i+2] === '/') { res += '(?:.*/)?'; i += 2; }
+      else { res += '.*'; i++; }
+    } else if (c === '*') res += '[^/]*';
+    else if (c === '?') res += '[^/]';
+    else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end < 0) res += '\\[';
+      else {
+        res += '[' + pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+        i = end;
+      }
+    } else if (c === '{') { res += '(?:'; braces++; }
+    else if (c === '}' && braces > 0) { res += ')'; braces--; }
+    else if (c === ',' && braces > 0) res += '|';
+    else res += c.replace(/[.+^$|()\\\]{}]/g, '\\$&');
+  }
+  return new RegExp('^' + res + '$');
+}
+
+/**
+ * Finds the files matching glob patterns
+ * Patterns without glob syntax are returned as they are, even if the file does
+ * not exist. Directories named `node_modules` or starting with a dot are skipped.
+ * @param patterns - The patterns, with `/` separators
+ * @param readDir - Lists the entries of a directory
+ * @returns The matching files, sorted and without duplicates
+ */
+export async function expandGlobs(patterns: string[], readDir: NonNullable<CliIo['readDir']>): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const p of patterns) {
+    const pattern = p.replace(/^(\.\/)+/, '');
+    const segments = pattern.split('/');
+    const first = segments.findIndex(isGlob);
+    if (first < 0) {
+      files.add(p);
+      continue;
+    }
+
+    const base = segments.slice(0, first).join('/');
+    const regex = globToRegExp(pattern);
+    // Without `**` matches are never deeper than the pattern
+    const maxDepth = pattern.includes('**') ? Infinity : segments.length - first;
+
+    const walk = async (dir: string, depth: number): Promise<void> => {
+      for (const entry of await readDir(dir || '.')) {
+        const path = dir ? dir + '/' + entry.name : entry.name;
+        if (entry.directory) {
+          if (depth < maxDepth && entry.name !== 'node_modules' && !entry.name.startsWith('.')) await walk(path, depth + 1);
+        } else if (regex.test(path)) files.add(path);
+      }
+    };
+    await walk(base, 1);
+  }
+  return Array.from(files).sort();
+}
@@ -0,0 +1,259 @@
+/**
+ * Hjson interpolation
+ * Parses `${NAME}` placeholders and resolves them once the document is parsed
+ */
+
+import * as common from './hjson-common';
+import { formatPath } from './hjson-error';
+import { HjsonErrorCode } from './types/errors';
+import { InterpolationContext, InterpolationResolver } from './types/interpolation';
+
+/**
+ * A `${...}` placeholder, with offsets into the string containing it
+ */
+export interface Placeholder {
+  name: string;
+  /** `-` for a default, `?` for an error message */
+  op?: '-' | '?';
+  /** The default value */
+  fallback?: Template;
+  /** The error message */
+  message?: string;
+  start: number;
+  /** Offset just past the closing `}` */
+  end: number;
+}
+
+/**
+ * A string split into text and placeholders
+ */
+export type Template = (string | Placeholder)[];
+
+/**
+ * A string value with placeholders, waiting to be resolved
+ */
+export interface TemplateEntry {
+  /** Keys and indices from the root */
+  keys: (string | number)[];
+  /** The string as parsed, still in the document until it is resolved */
+  raw: string;
+  template: Template;
+  /** Converts the expanded text into the value */
+  value(text: string): any;
+  /** Reports a problem with a placeholder, throws unless diagnostics are collected */
+  fail(message: string, code: HjsonErrorCode, placeholder: Placeholder): void;
+}
+
+/**
+ * Splits a string into text and placeholders
+ * @param str - The string
+ * @returns The template, or the problem and its offset in the string
+ */
+export function parseTemplate(str: string): Template | { error: string, at: number } {
+  let i = 0;
+
+  /**
+   * Parses text and placeholders up to the end or, nested in a default, up to `}`
+   * @param nested - Whether this is the default of a placeholder
+   */
+  function parts(nested: boolean): Template {
+    const res: Template = [];
+    let text = '';
+    while (i < str.length && !(nested && str[i] === '}')) {
+      if (str.startsWith('$${', i)) {
+        text += '${';
+        i += 3;
+      } else if (str.startsWith('${', i)) {
+        if (text) res.push(text);
+        text = '';
+        res.push(placeholder());
+      } else text += str[i++];
+    }
+    if (text) res.push(text);
+    return res;
+  }
+
+  /**
+   * Parses a placeholder starting at `${`
+   */
+  function placeholder(): Placeholder {
+    const p: Placeholder = { name: '', start: i, end: i };
+    i += 2;
+    while (i < str.length && str[i] !== '}' && !(str[i] === ':' && (str[i+1] === '-' || str[i+1] === '?'))) p.name += str[i++];
+    p.name = p.name.trim();
+    if (!p.name) throw { error: "Placeholder without a name", at: p.start };
+    if (str[i] === ':') {
+      p.op = str[i+1] as '-' | '?';
+      i += 2;
+      if (p.op === '-') p.fallback = parts(true);
+      else {
+        const end = str.indexOf('}', i);
+        p.message = str.slice(i, end < 0 ? str.length : end).trim();
+        i = end < 0 ? str.length : end;
+      }
+    }
+    if (str[i] !== '}') throw { error: "Unterminated placeholder, missing '}'", at: p.start };
+    p.end = ++i;
+    return p;
+  }
+
+  try {
+    return parts(false);
+  } catch (e: any) {
+    if (e?.error === undefined) throw e;
+    return e;
+  }
+}
+
+/**
+ * Checks if a value is a promise or another thenable
+ * @param v - The value
+ */
+export function isPromise(v: any): v is PromiseLike<any> {
+  return v !== null && (typeof v === 'object' || typeof v === 'function') && typeof v.then === 'function';
+}
+
+/**
+ * Continues with a value, right away or once a promise resolves
+ * @param v - The value or promise
+ * @param fn - The continuation
+ */
+export function andThen<T, R>(v: T | PromiseLike<T>, fn: (v: T) => R | PromiseLike<R>): R | PromiseLike<R> {
+  return isPromise(v) ? v.then(fn) : fn(v);
+}
+
+/**
+ * Resolves the placeholders of a parsed document
+ * Entries are resolved in order, a lookup of a value with placeholders
+ * resolves that value first.
+ * @param root - The parsed document, still holding the raw strings
+ * @param entries - The strings with placeholders, in source order
+ * @param resolvers - The resolvers, asked in order
+ * @returns The document, or a promise of it if a resolver returned a promise
+ */
+export function interpolate(root: any, entries: TemplateEntry[], resolvers: InterpolationResolver[]): any {
+  const byPointer = new Map<string, TemplateEntry>();
+  entries.forEach(entry => byPointer.set(common.pathPointer(entry.keys), entry));
+  const state = new Map<TemplateEntry, 'resolving' | 'done'>();
+
+  /**
+   * Gets the holder of a value and its key
+   * @param keys - Keys and indices from the root
+   */
+  const holderOf = (keys: (string | number)[]): [any, string | number] | undefined => {
+    let holder: any = { "": root }, key: string | number = "";
+    for (const k of keys) {
+      const v = common.getOwn(holder, key);
+      if (v === null || typeof v !== 'object') return undefined;
+      holder = v;
+      key = k;
+    }
+    return [holder, key];
+  };
+
+  /**
+   * Checks if an entry still holds its raw string, a duplicate key may have replaced it
+   * @param entry - The entry
+   */
+  const pendingEntry = (entry: TemplateEntry | undefined): entry is TemplateEntry => {
+    if (!entry || state.get(entry) === 'done') return false;
+    const at = holderOf(entry.keys);
+    return !!at && common.getOwn(at[0], at[1]) === entry.raw;
+  };
+
+  /**
+   * Expands the placeholders of an entry and stores its value
+   * @param entry - The entry
+   */
+  const resolveEntry = (entry: TemplateEntry): any => {
+    state.set(entry, 'resolving');
+    return andThen(expand(entry.template, entry), text => {
+      const v = entry.value(text);
+      const [holder, key] = holderOf(entry.keys)!;
+      if (entry.keys.length) common.setOwn(holder, String(key), v);
+      else root = v;
+      state.set(entry, 'done');
+      return v;
+    });
+  };
+
+  /**
+   * Expands a template
+   * @param template - The template
+   * @param entry - The entry it belongs to
+   */
+  const expand = (template: Template, entry: TemplateEntry): string | PromiseLike<string> => {
+    let i = 0, out = '';
+    const step = (): string | PromiseLike<string> => {
+      while (i < template.length) {
+        const part = template[i++];
+        if (typeof part === 'string') {
+          out += part;
+          continue;
+        }
+        const v = placeholder(part, entry);
+        if (isPromise(v)) return v.then(s => { out += s; return step(); });
+        out += v;
+      }
+      return out;
+    };
+    return step();
+  };
+
+  /**
+   * Gets the text of a placeholder
+   * @param p - The placeholder
+   * @param entry - The entry it belongs to
+   */
+  const placeholder = (p: Placeholder, entry: TemplateEntry): string | PromiseLike<string> => {
+    const context: InterpolationContext = {
+      path: entry.keys.slice(),
+      lookup(path) {
+        const target = byPointer.get(common.pathPointer(path));
+        if (pendingEntry(target)) {
+          if (state.get(target) !== 'resolving') return resolveEntry(target);
+          entry.fail("Circular reference to " + formatPath(path) + " in ${" + p.name + "}", HjsonErrorCode.UnresolvedPlaceholder, p);
+          return undefined;
+        }
+        const at = holderOf(path);
+        return at && common.getOwn(at[0], at[1]);
+      }
+    };
+
+    let n = 0;
+    const ask = (): unknown => {
+      while (n < resolvers.length) {
+        const v = resolvers[n++](p.name, context);
+        if (isPromise(v)) return v.then(r => r === undefined ? ask() : r);
+        if (v !== undefined) return v;
+      }
+      return undefined;
+    };
+
+    return andThen(ask(), v => {
+      if (v === undefined || v === '' && p.op) {
+        if (p.op === '-') return expand(p.fallback!, entry);
+        entry.fail(p.op === '?' ? p.name + ": " + (p.message || "required value is missing") : "Unresolved placeholder ${" + p.name + "}",
+          HjsonErrorCode.UnresolvedPlaceholder, p);
+        return '';
+      }
+      if (v === null || typeof v === 'object' || typeof v === 'function') {
+        entry.fail("Placeholder ${" + p.name + "} does not resolve to text", HjsonErrorCode.UnresolvedPlaceholder, p);
+        return '';
+      }
+      return String(v);
+    });
+  };
+
+  let i = 0;
+  const step = (): any => {
+    while (i < entries.length) {
+      const entry = entries[i++];
+      if (!pendingEntry(entry)) continue;
+      const v = resolveEntry(entry);
+      if (isPromise(v)) return v.then(step);
+    }
+    return root;
+  };
+  return step();
+}
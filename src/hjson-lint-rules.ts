@@ -0,0 +1,283 @@
+/**
+ * Hjson built-in lint rules
+ * Style checks and checks for quoteless strings that do not mean what they seem to
+ */
+
+import * as common from './hjson-common';
+import { CstArray, CstNode, CstObject, CstString, CstValue } from './types/cst';
+import { LintRule } from './types/lint';
+
+/**
+ * Calls a function for every node of a tree, parents before children
+ * @param node - The root node
+ * @param fn - The function to call
+ */
+function eachNode(node: CstNode, fn: (node: CstNode) => void): void {
+  fn(node);
+  if ('children' in node) node.children.forEach(child => eachNode(child, fn));
+}
+
+/**
+ * Checks if a value is a quoteless string
+ * Commas cannot follow such a value, they would become part of it.
+ * @param node - The value
+ */
+function isQuoteless(node: CstValue): node is CstString {
+  return node.type === 'string' && node.style === 'quoteless';
+}
+
+/**
+ * Gets the literal a quoteless string starts like, e.g. `10` for `10 apples`
+ * @param node - The quoteless string
+ * @returns The literal, or undefined
+ */
+function literalStart(node: CstString): string | undefined {
+  const word = node.value.split(/[\s,]/)[0];
+  if (word !== 'true' && word !== 'false' && word !== 'null' && common.tryParseNumber(word) === undefined) return undefined;
+  return word;
+}
+
+/**
+ * Finds a comment marker inside a quoteless string
+ * @param node - The quoteless string
+ */
+function commentMarker(node: CstString): RegExpExecArray | null {
+  return /\s(#|\/\/|\/\*)/.exec(node.raw);
+}
+
+/**
+ * Checks if the quoteless rules quote a string when fixing it
+ * @param node - The quoteless string
+ */
+function quotedByFix(node: CstString): boolean {
+  return literalStart(node) !== undefined || !!commentMarker(node) || node.raw.endsWith(',');
+}
+
+/**
+ * Gets the offset where the line containing an offset starts
+ * @param text - The source text
+ * @param offset - The offset
+ */
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Reports quoted keys that would be valid without quotes
+ */
+const noUnneededQuotes: LintRule = {
+  name: 'no-unneeded-quotes',
+  check({ cst, report }) {
+    eachNode(cst, node => {
+      if (node.type !== 'key' || node.style === 'quoteless' || !node.value) return;
+      if (/[,{[}\]\s:#"']|\/\/|\/\*/.test(node.value)) return;
+      report({
+        message: "Key '" + node.value + "' does not need quotes",
+        start: node.start, end: node.end,
+        fix: [{ start: node.start, end: node.end, text: node.value }],
+      });
+    });
+  }
+};
+
+/**
+ * Reports quoteless strings starting with a number or keyword, like `10 apples`
+ */
+const quotelessLiteral: LintRule = {
+  name: 'quoteless-literal',
+  check({ cst, report }) {
+    eachNode(cst, node => {
+      if (node.type !== 'string' || node.style !== 'quoteless') return;
+      const word = literalStart(node);
+      if (word === undefined) return;
+      report({
+        message: "Quoteless string '" + node.value + "' starts like the value " + word + ", quote it to show it is a string",
+        start: node.start, end: node.end,
+        fix: [{ start: node.start, end: node.end, text: JSON.stringify(node.value) }],
+      });
+    });
+  }
+};
+
+/**
+ * Reports comment markers and trailing commas swallowed by quoteless strings
+ */
+const quotelessPunctuation: LintRule = {
+  name: 'quoteless-punctuation',
+  check({ cst, report }) {
+    eachNode(cst, node => {
+      if (node.type !== 'string' || node.style !== 'quoteless') return;
+      const fix = [{ start: node.start, end: node.end, text: JSON.stringify(node.value) }];
+      const marker = commentMarker(node);
+      if (marker) {
+        const start = node.start + marker.index + 1;
+        report({ message: "'" + marker[1] + "' is part of the quoteless string, not a comment", start, end: start + marker[1].length, fix });
+      }
+      if (node.raw.endsWith(',')) {
+        report({ message: "',' is part of the quoteless string, not a separator", start: node.end - 1, end: node.end, fix });
+      }
+    });
+  }
+};
+
+/**
+ * Reports `#` and `//` comments mixed in one document
+ * Options: 'consistent' (default, the first comment's style), '#' or '//'.
+ */
+const commentStyle: LintRule = {
+  name: 'comment-style',
+  check({ cst, options, report }) {
+    let expected: string | undefined = options === '#' || options === '//' ? options : undefined;
+    eachNode(cst, node => {
+      if (node.type !== 'comment' || node.style === '/*') return;
+      expected = expected ?? node.style;
+      if (node.style === expected) return;
+      report({
+        message: "Use '" + expected + "' comments instead of '" + node.style + "'",
+        start: node.start, end: node.end,
+        fix: [{ start: node.start, end: node.start + node.style.length, text: expected }],
+      });
+    });
+  }
+};
+
+/**
+ * Reports commas used for some line breaks between members or elements but not others
+ * Options: 'consistent' (default, the first line break's style), 'always' or 'never'.
+ * Members and elements on the same line always need commas and are not checked.
+ * Quoteless strings cannot take a comma and are skipped, unless the quoteless
+ * rules quote them; the style is then settled as it will be after the fixes.
+ */
+const commaStyle: LintRule = {
+  name: 'comma-style',
+  check({ cst, options, report }) {
+    let expected: boolean | undefined = options === 'always' ? true : options === 'never' ? false : undefined;
+    eachNode(cst, node => {
+      if (node.type !== 'object' && node.type !== 'array') return;
+      const items: CstNode[] = node.type === 'object' ? node.members : node.elements;
+      for (let i = 0; i < items.length - 1; i++) {
+        const from = node.children.indexOf(items[i]), to = node.children.indexOf(items[i+1]);
+        const between = node.children.slice(from + 1, to);
+        if (!between.some(n => n.type === 'whitespace' && n.raw.includes('\n'))) continue;
+        const comma = between.find(n => n.type === 'comma');
+        const item = items[i];
+        const value = item.type === 'member' ? item.value : item as CstValue;
+        // A string the quoteless rules quote takes part as it will be after the fixes
+        const quoted = isQuoteless(value) && quotedByFix(value);
+        if (!comma && isQuoteless(value) && !quoted) continue;
+
+        expected = expected ?? !!comma;
+        if (expected && quoted) {
+          // Reported at the start of the value so that this fix, which quotes it too, wins over the quoteless rules
+          report({
+            message: "Missing comma after this line, the value needs quotes to take one",
+            start: value.start, end: value.start,
+            fix: [{ start: value.start, end: value.end, text: JSON.stringify((value as CstString).value) + ',' }],
+          });
+        } else if (expected && !comma) {
+          report({ message: "Missing comma after this line", start: item.end, end: item.end, fix: [{ start: item.end, end: item.end, text: ',' }] });
+        } else if (!expected && comma) {
+          report({ message: "Unneeded comma at the end of the line", start: comma.start, end: comma.end, fix: [{ start: comma.start, end: comma.end, text: '' }] });
+        }
+      }
+    });
+  }
+};
+
+/**
+ * Reports members, elements, comments and closing braces not indented by their depth
+ * Options: the number of spaces or 'tab', by default the indentation of the first indented line at depth 1,
+ * or 2 spaces without one.
+ */
+const indent: LintRule = {
+  name: 'indent',
+  check({ text, cst, options, report }) {
+    let unit: string | undefined = options === 'tab' ? '\t' : typeof options === 'number' ? ' '.repeat(options) : undefined;
+    const lines: [number, number, number][] = []; // Line start, node start and depth of nodes starting a line
+
+    /**
+     * Collects a node if it starts a line
+     * @param node - The node
+     * @param depth - The expected depth
+     */
+    function check(node: CstNode, depth: number): void {
+      const start = lineStart(text, node.start);
+      if (/^[ \t]*$/.test(text.slice(start, node.start))) lines.push([start, node.start, depth]);
+    }
+
+    /**
+     * Checks the contents of an object or array
+     * @param node - The object or array
+     * @param depth - The depth of its members or elements
+     */
+    function container(node: CstObject | CstArray, depth: number): void {
+      node.children.forEach(child => {
+        if (child.type === 'punctuator') {
+          if (child.raw === '}' || child.raw === ']') check(child, depth - 1);
+        } else if (child.type !== 'whitespace' && child.type !== 'comma') {
+          check(child, depth);
+          const value = child.type === 'member' ? child.value : child;
+          if (value.type === 'object' || value.type === 'array') container(value, depth + 1);
+        }
+      });
+    }
+
+    const root = cst.value;
+    cst.children.forEach(child => { if (child.type === 'comment') check(child, 0); });
+    if (root.type === 'object' || root.type === 'array') container(root, root.type === 'object' && !root.braces ? 0 : 1);
+
+    // Deeper lines may mix units, so only a line at depth 1 tells the unit
+    const first = lines.find(([start, end, depth]) => depth === 1 && end > start);
+    unit = unit ?? (first ? text.slice(first[0], first[1]) : '  ');
+    const describe = (s: string) => s.includes('\t') ? JSON.stringify(s) : s.length + " spaces";
+    for (const [start, end, depth] of lines) {
+      const actual = text.slice(start, end), expected = unit.repeat(depth);
+      if (actual === expected) continue;
+      report({
+        message: "Expected indentation of " + describe(expected) + " but found " + describe(actual),
+        start, end,
+        fix: [{ start, end, text: expected }],
+      });
+    }
+  }
+};
+
+/**
+ * Reports tabs in multiline strings, where they stay in the value
+ */
+const noTabsInMultiline: LintRule = {
+  name: 'no-tabs-in-multiline',
+  check({ cst, report }) {
+    eachNode(cst, node => {
+      if (node.type !== 'string' || node.style !== 'multiline') return;
+      const tab = node.raw.indexOf('\t');
+      if (tab >= 0) report({ message: "Tab in a multiline string, it is kept in the value", start: node.start + tab, end: node.start + tab + 1 });
+    });
+  }
+};
+
+/**
+ * Reports empty keys
+ */
+const noEmptyKeys: LintRule = {
+  name: 'no-empty-keys',
+  check({ cst, report }) {
+    eachNode(cst, node => {
+      if (node.type === 'key' && !node.value) report({ message: "Empty key", start: node.start, end: node.end });
+    });
+  }
+};
+
+/**
+ * The built-in rules, all reporting warnings unless configured otherwise
+ */
+export const builtinRules: LintRule[] = [
+  noUnneededQuotes,
+  quotelessLiteral,
+  quotelessPunctuation,
+  commentStyle,
+  commaStyle,
+  indent,
+  noTabsInMultiline,
+  noEmptyKeys,
+];
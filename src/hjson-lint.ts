@@ -0,0 +1,79 @@
+/**
+ * Hjson linter
+ * Runs style and ambiguity rules on Hjson text and applies their fixes
+ */
+
+import { parseToCst } from './hjson-cst';
+import { parseWithDiagnostics } from './hjson-parse';
+import { HjsonSyntaxError, lineColumn } from './hjson-error';
+import { builtinRules } from './hjson-lint-rules';
+import { CstDocument } from './types/cst';
+import { Diagnostic } from './types/diagnostic';
+import { LintConfig, LintDiagnostic, LintRule } from './types/lint';
+
+/**
+ * Checks Hjson text with the built-in rules and any plugin rules
+ * Text that cannot be parsed yields its syntax errors under the rule name `syntax`.
+ * @param text - The Hjson text
+ * @param config - Rule settings and plugins
+ * @returns The problems found, in source order
+ */
+export function lint(text: string, config?: LintConfig): LintDiagnostic[] {
+  const rules: LintRule[] = builtinRules.concat(config?.plugins || []);
+  const settings = config?.rules || {};
+  Object.keys(settings).forEach(name => {
+    if (!rules.some(rule => rule.name === name)) throw new Error("unknown lint rule: " + name);
+  });
+
+  let cst: CstDocument;
+  try {
+    cst = parseToCst(text);
+  } catch (e) {
+    if (!(e instanceof HjsonSyntaxError)) throw e;
+    const errors: (HjsonSyntaxError | Diagnostic)[] = parseWithDiagnostics(text).diagnostics.filter(d => d.severity === 'error');
+    if (!errors.length) errors.push(e);
+    return errors.map(d => ({
+      rule: 'syntax', message: d.message, severity: 'error',
+      line: d.line, column: d.column, offset: d.offset, endOffset: d.endOffset,
+    }));
+  }
+
+  const diagnostics: LintDiagnostic[] = [];
+  rules.forEach(rule => {
+    const setting = Object.prototype.hasOwnProperty.call(settings, rule.name) ? settings[rule.name] : rule.severity ?? 'warning';
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, undefined];
+    if (severity === 'off') return;
+    rule.check({
+      text, cst, options,
+      report(problem) {
+        const { line, column } = lineColumn(text, problem.start);
+        const diagnostic: LintDiagnostic = {
+          rule: rule.name, message: problem.message, severity,
+          line, column, offset: problem.start, endOffset: problem.end,
+        };
+        if (problem.fix) diagnostic.fix = problem.fix;
+        diagnostics.push(diagnostic);
+      }
+    });
+  });
+  return diagnostics.sort((a, b) => a.offset - b.offset || a.endOffset - b.endOffset);
+}
+
+/**
+ * Applies the fixes of lint diagnostics
+ * A fix overlapping one applied before is skipped, linting the result again
+ * finds what is left.
+ * @param text - The text that was linted
+ * @param diagnostics - The diagnostics returned by `lint`
+ * @returns The fixed text
+ */
+export function applyFixes(text: string, diagnostics: LintDiagnostic[]): string {
+  const edits: { start: number, end: number, text: string }[] = [];
+  diagnostics.forEach(d => {
+    if (!d.fix || d.fix.some(f => edits.some(e => f.start < e.end && e.start < f.end || f.start === e.start))) return;
+    edits.push(...d.fix);
+  });
+  edits.sort((a, b) => b.start - a.start);
+  edits.forEach(e => { text = text.slice(0, e.start) + e.text + text.slice(e.end); });
+  return text;
+}
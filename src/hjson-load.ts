@@ -0,0 +1,107 @@
+/**
+ * Hjson file loader
+ * Loads Hjson files, resolving `$include` keys into deep-merged objects
+ */
+
+import { parseStringAsync, parseWithDiagnostics } from './hjson-parse';
+import * as common from './hjson-common';
+import { HjsonLoadError, HjsonSyntaxError } from './hjson-error';
+import { resolvePath, dirname } from './hjson-path';
+import { IncludeSite, LoadOptions } from './types/load';
+import { SourceLocationMap } from './types/location';
+
+/**
+ * The key naming the files to include
+ */
+const includeKey = '$include';
+
+/**
+ * Loads an Hjson file
+ * @param path - The file name, with `/` separators
+ * @param opt - How to read the file, whether to resolve includes and parse options
+ * @returns The parsed value, with includes resolved when `opt.include` is set
+ * @throws HjsonLoadError if a file cannot be read or parsed, or an include is
+ * invalid or cyclic
+ */
+export async function loadFile(path: string, opt: LoadOptions): Promise<any> {
+  const file = resolvePath('', path);
+  return load(file, opt, [file], []);
+}
+
+/**
+ * Loads a file and the files it includes
+ * @param file - The file name
+ * @param opt - The load options
+ * @param chain - The files being loaded, from the first one to this one
+ * @param includedFrom - The includes leading to the file, innermost first
+ * @returns The parsed value
+ */
+async function load(file: string, opt: LoadOptions, chain: string[], includedFrom: IncludeSite[]): Promise<any> {
+  const { read, include, ...parseOptions } = opt;
+  let text: string;
+  try {
+    text = await read(file);
+  } catch (e: any) {
+    throw new HjsonLoadError("cannot read file: " + (e?.message ?? e), file, undefined, includedFrom, e);
+  }
+
+  let value: any, locations: SourceLocationMap;
+  try {
+    ({ value, locations } = await parseStringAsync(text, { ...parseOptions, locations: true }));
+  } catch (e) {
+    if (!(e instanceof HjsonSyntaxError)) throw e;
+    // Diagnostics point closer to the mistake, placeholder problems are only in the error
+    const { interpolate: _, ...syntaxOptions } = parseOptions;
+    const d = parseWithDiagnostics(text, syntaxOptions).diagnostics.find(d => d.severity === 'error');
+    const message = d?.message ?? e.message.slice(0, e.message.lastIndexOf(" at line "));
+    throw new HjsonLoadError(message, file, d ?? e, includedFrom, e);
+  }
+  if (!include) return value;
+
+  /**
+   * Gets the position of a value
+   * @param keys - Keys and indices from the root
+   */
+  const position = (keys: (string | number)[]): { line: number, column: number } => {
+    return locations.get(common.pathPointer(keys))?.value.start ?? { line: 1, column: 1 };
+  };
+
+  /**
+   * Resolves the includes of a value and everything inside it
+   * @param v - The value
+   * @param keys - Keys and indices from the root
+   * @returns The value with includes resolved
+   */
+  const resolve = async (v: any, keys: (string | number)[]): Promise<any> => {
+    if (Array.isArray(v)) {
+      for (let i = 0; i < v.length; i++) v[i] = await resolve(v[i], keys.concat(i));
+      return v;
+    }
+    if (!common.isPlainObject(v)) return v;
+    for (const key of Object.keys(v)) {
+      if (key !== includeKey) common.setOwn(v, key, await resolve(v[key], keys.concat(key)));
+    }
+    if (!Object.prototype.hasOwnProperty.call(v, includeKey)) return v;
+
+    const names = v[includeKey];
+    const list: unknown[] = Array.isArray(names) ? names : [names];
+    if (!list.length || list.some(name => typeof name !== 'string' || !name))
+      throw new HjsonLoadError(includeKey + " expects a file name or an array of file names", file, position(keys.concat(includeKey)), includedFrom);
+
+    let merged: any;
+    for (let i = 0; i < list.length; i++) {
+      const target = resolvePath(dirname(file), list[i] as string);
+      const at = position(Array.isArray(names) ? keys.concat(includeKey, i) : keys.concat(includeKey));
+      if (chain.includes(target))
+        throw new HjsonLoadError("include cycle: " + chain.concat(target).join(' -> '), file, at, includedFrom);
+      const included = await load(target, opt, chain.concat(target), [{ file, ...at }, ...includedFrom]);
+      if (!common.isPlainObject(included))
+        throw new HjsonLoadError("expected " + target + " to contain an object", file, at, includedFrom);
+      merged = merged === undefined ? included : common.deepMerge(merged, included);
+    }
+    delete v[includeKey];
+    return common.deepMerge(merged, v);
+  };
+
+  return resolve(value, []);
+}
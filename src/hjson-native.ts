@@ -0,0 +1,86 @@
+/**
+ * Hjson native types
+ * Converts Map, Set and typed arrays to plain values for stringify, and
+ * parsed objects and arrays back into Maps and Sets
+ */
+
+import * as common from './hjson-common';
+
+/**
+ * Converts a Map, Set or typed array into a plain object or array
+ * Maps with only string keys become objects, others arrays of [key, value] pairs.
+ * Uint8Array is left to the binary DSF.
+ * @param value - The value
+ * @returns The plain value, or the value itself if it is of another type
+ */
+export function fromNative(value: any): any {
+  if (value instanceof Map) {
+    const entries = Array.from(value);
+    if (!entries.every(([k]) => typeof k === 'string')) return entries;
+    const obj: Record<string, any> = {};
+    entries.forEach(([k, v]) => common.setOwn(obj, k, v));
+    return obj;
+  }
+  if (value instanceof Set) return Array.from(value);
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView) && !(value instanceof Uint8Array)) return Array.from(value as any);
+  return value;
+}
+
+/**
+ * Converts the values at the given paths into Maps and Sets
+ * @param value - The parsed value
+ * @param collections - JSON pointers, where `*` matches any key, and the type to create
+ * @returns The converted value
+ */
+export function toCollections(value: any, collections: Record<string, 'map' | 'set'>): any {
+  const patterns = Object.keys(collections).map(pointer => {
+    if (pointer !== '' && pointer[0] !== '/') throw new Error("invalid JSON pointer: " + pointer);
+    const keys = pointer ? pointer.slice(1).split('/').map(p => p.replace(/~1/g, '/').replace(/~0/g, '~')) : [];
+    return { keys, type: collections[pointer] };
+  });
+
+  /**
+   * Gets the type to convert a value to
+   * @param path - Keys and indices from the root
+   */
+  function typeAt(path: (string | number)[]): 'map' | 'set' | undefined {
+    const match = patterns.find(p => p.keys.length === path.length && p.keys.every((k, i) => k === '*' || k === String(path[i])));
+    return match?.type;
+  }
+
+  /**
+   * Converts a value and everything inside it, children first
+   * @param v - The value
+   * @param path - Keys and indices from the root
+   */
+  function convert(v: any, path: (string | number)[]): any {
+    const type = typeAt(path);
+    if (v === null) return v;
+    if (typeof v !== 'object') return type ? fail(path, type) : v;
+    if (Array.isArray(v)) v.forEach((item, i) => { v[i] = convert(item, path.concat(i)); });
+    else Object.keys(v).forEach(k => common.setOwn(v, k, convert(v[k], path.concat(k))));
+
+    if (type === 'set') {
+      if (!Array.isArray(v)) fail(path, type);
+      return new Set(v);
+    }
+    if (type === 'map') {
+      if (!Array.isArray(v)) return new Map(Object.entries(v));
+      if (!v.every(e => Array.isArray(e) && e.length === 2)) fail(path, type);
+      return new Map(v);
+    }
+    return v;
+  }
+
+  return convert(value, []);
+}
+
+/**
+ * Throws an error for a value that cannot be converted
+ * @param path - Keys and indices from the root
+ * @param type - The requested type
+ */
+function fail(path: (string | number)[], type: 'map' | 'set'): never {
+  const expected = type === 'set' ? "an array" : "an object or an array of [key, value] pairs";
+  throw new Error("expected " + expected + " for a " + (type === 'set' ? 'Set' : 'Map') + " at " + (path.length ? common.pathPointer(path) : "the root"));
+}
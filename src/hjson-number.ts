@@ -0,0 +1,79 @@
+/**
+ * Hjson raw numbers
+ * Provides the wrapper returned for numbers when parsing with `numbers: 'raw'`
+ */
+
+import { ParseOptions } from './types/parse-options';
+
+/**
+ * A number kept exactly as written in the source
+ *
+ * Arithmetic uses `valueOf()`, which may round; `lexeme` keeps every digit.
+ * `stringify` writes the lexeme back unchanged.
+ */
+export class HjsonNumber {
+  /** The number as written, e.g. `1.50` or `12345678901234567890` */
+  readonly lexeme: string;
+
+  /**
+   * Creates a raw number
+   * @param lexeme - The number as written
+   */
+  constructor(lexeme: string) {
+    this.lexeme = lexeme;
+  }
+
+  /**
+   * Converts to a JavaScript number, possibly rounding
+   */
+  valueOf(): number {
+    return Number(this.lexeme);
+  }
+
+  /**
+   * Gets the number as written
+   */
+  toString(): string {
+    return this.lexeme;
+  }
+
+  /**
+   * Converts to a JavaScript number for `JSON.stringify`
+   */
+  toJSON(): number {
+    return this.valueOf();
+  }
+}
+
+/**
+ * Gets the digits and exponent of a number's decimal text, without sign or zeros
+ * `1.50`, `15e-1` and `0.15E1` all give `15e-1`.
+ * @param text - The number as written, or as printed by `String`
+ */
+function significand(text: string): string {
+  const m = /^-?(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/.exec(text);
+  if (!m) return text;
+  const digits = (m[1] + (m[2] || '')).replace(/^0+/, '');
+  const trimmed = digits.replace(/0+$/, '');
+  if (!trimmed) return '0';
+  const exponent = parseInt(m[3] || '0', 10) - (m[2] || '').length + digits.length - trimmed.length;
+  return (text[0] === '-' ? '-' : '') + trimmed + 'e' + exponent;
+}
+
+/**
+ * Converts a parsed number according to the numbers option
+ * @param lexeme - The number as written
+ * @param n - The parsed number
+ * @param numbers - The representation, see `ParseOptions.numbers`
+ * @returns The number, BigInt or HjsonNumber
+ */
+export function convertNumber(lexeme: string, n: number, numbers: NonNullable<ParseOptions['numbers']>): any {
+  if (numbers === 'raw') return new HjsonNumber(lexeme);
+  if (numbers === 'number') return n;
+  if (!/^-?\d+$/.test(lexeme)) {
+    // Decimals a number would round keep every digit as HjsonNumber
+    return numbers === 'auto' && significand(lexeme) !== significand(String(n)) ? new HjsonNumber(lexeme) : n;
+  }
+  // Integers beyond the safe range keep every digit as BigInt
+  return numbers === 'bigint' || !Number.isSafeInteger(n) ? BigInt(lexeme) : n;
+}
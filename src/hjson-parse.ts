@@ -4,16 +4,78 @@
  */
 
 import { ParseOptions } from './types/parse-options';
+import { Diagnostic, ParseResult } from './types/diagnostic';
+import { LocatedParseResult, SourceLocationMap, SourceRange } from './types/location';
+import { Reviver, ReviverContext } from './types/reviver';
+import { InterpolationResolver } from './types/interpolation';
 import * as common from './hjson-common';
-import { loadDsf } from './hjson-dsf';
+import { loadDsf, dsf } from './hjson-dsf';
+import { removeEntry } from './hjson-comments';
+import { toCollections } from './hjson-native';
+import { convertNumber } from './hjson-number';
+import { HjsonSyntaxError, lineColumn, syntaxError } from './hjson-error';
+import { HjsonErrorCode } from './types/errors';
+import { interpolate, isPromise, parseTemplate, TemplateEntry } from './hjson-interpolate';
+import { resolveReferences } from './hjson-refs';
 
 /**
  * Parses a Hjson string into a JavaScript object
  * @param source - The Hjson string to parse
+ * @param opt - Optional parsing configuration, or a reviver
+ * @returns The parsed JavaScript object, or the object and its source
+ * locations when `opt.locations` is set
+ */
+export default function parse(source: string, opt: ParseOptions & { locations: true }): LocatedParseResult;
+export default function parse(source: string, opt?: ParseOptions | Reviver): any;
+export default function parse(source: string, options?: ParseOptions | Reviver): any {
+  const opt = typeof options === 'function' ? { reviver: options } : options;
+  if (!opt?.locations) return parseSource(source, opt);
+  const locations: SourceLocationMap = new Map();
+  const value = parseSource(source, opt, undefined, locations);
+  return { value, locations };
+}
+
+/**
+ * Parses a Hjson string, waiting for asynchronous interpolation resolvers
+ * @param source - The Hjson string to parse
+ * @param opt - Optional parsing configuration, or a reviver
+ * @returns The parsed value, or the value and its source locations when
+ * `opt.locations` is set
+ */
+export async function parseStringAsync(source: string, options?: ParseOptions | Reviver): Promise<any> {
+  const opt = typeof options === 'function' ? { reviver: options } : options;
+  const locations: SourceLocationMap | undefined = opt?.locations ? new Map() : undefined;
+  const value = await parseSource(source, opt, undefined, locations, true);
+  return locations ? { value, locations } : value;
+}
+
+/**
+ * Parses a Hjson string without stopping at the first error
+ * Every problem is recorded as a diagnostic and the parser continues with a
+ * best guess, e.g. by inserting a missing colon or closing bracket.
+ * @param source - The Hjson string to parse
+ * @param opt - Optional parsing configuration
+ * @returns The best-effort value and the list of diagnostics
+ */
+export function parseWithDiagnostics(source: string, opt?: ParseOptions): ParseResult {
+  const diagnostics: Diagnostic[] = [];
+  const locations: SourceLocationMap | undefined = opt?.locations ? new Map() : undefined;
+  const value = parseSource(source, opt, diagnostics, locations);
+  diagnostics.sort((a, b) => a.offset - b.offset);
+  return locations ? { value, diagnostics, locations } : { value, diagnostics };
+}
+
+/**
+ * Parses a Hjson string
+ * @param source - The Hjson string to parse
  * @param opt - Optional parsing configuration
+ * @param diagnostics - When given, errors are collected here instead of thrown
+ * @param locations - When given, the location of every value is recorded here
+ * @param allowAsync - Whether interpolation resolvers may return promises, making
+ * the result a promise
  * @returns The parsed JavaScript object
  */
-export default function parse(source: string, opt?: ParseOptions): any {
+function parseSource(source: string, opt: ParseOptions | undefined, diagnostics?: Diagnostic[], locations?: SourceLocationMap, allowAsync?: boolean): any {
   const text = String(source);
   let at = 0; // Current position in the text
   let ch = ' '; // Current character
@@ -32,17 +94,94 @@ export default function parse(source: string, opt?: ParseOptions): any {
   };
 
   const keepComments = opt?.keepWhitespaceAndComments;
-  const runDsf = loadDsf(opt?.dsf, 'parse'); // Domain specific formats
+  const nativeTypes = opt?.nativeTypes ?? false;
+  const numbers = opt?.numbers ?? (nativeTypes ? 'auto' : 'number');
+  let spelling: string | undefined; // Spelling of the last number, kept with the comments
+  const runDsf = loadDsf(nativeTypes ? (opt?.dsf || []).concat(dsf.binary) : opt?.dsf, 'parse'); // Domain specific formats
   const legacyRoot = opt?.legacyRoot !== false; // Default to true
+  const duplicateKeys = opt?.duplicateKeys ?? 'last';
+  const protoKeys = opt?.protoKeys ?? 'error';
+  const nullPrototype = opt?.nullPrototype ?? false;
+  const reviver = opt?.reviver;
+  const references = opt?.references;
+  // The reviver gets the source text of each value, reference errors need positions
+  if ((reviver || references) && !locations) locations = new Map();
+  const position = locations ? common.createLineIndex(text) : undefined;
+  const path: (string | number)[] = []; // Path to the value being parsed
+  const resolvers = opt?.interpolate === undefined ? undefined : ([] as InterpolationResolver[]).concat(opt.interpolate);
+  let templates: TemplateEntry[] = []; // Strings with placeholders, resolved after parsing
+  let stringOffsets: number[] = []; // Source offset of each character of the last quoted string
 
   /**
    * Resets the parser position to the beginning
    */
   function resetAt(): void {
     at = 0;
+    templates = [];
     ch = ' ' as string;
   }
 
+  /**
+   * Gets the JSON pointer of the value being parsed
+   */
+  function pointer(keys: (string | number)[] = path): string {
+    return common.pathPointer(keys);
+  }
+
+  /**
+   * Gets the end of the text parsed since start, excluding trailing whitespace
+   * @param start - Start offset of the parsed text
+   */
+  function trimmedEnd(start: number): number {
+    let end = Math.min(at - 1, text.length);
+    while (end > start && text[end - 1] <= ' ') end--;
+    return end;
+  }
+
+  /**
+   * Creates a source range from offsets
+   * @param start - Start offset
+   * @param end - End offset (exclusive)
+   */
+  function range(start: number, end: number): SourceRange {
+    return { start: position!(start), end: position!(end) };
+  }
+
+  /**
+   * Records the location of a value that was just parsed
+   * @param start - Start offset of the value
+   * @param v - The parsed value
+   * @returns The value
+   */
+  function located<T>(start: number, v: T): T {
+    if (locations) locations.set(pointer(), { value: range(start, trimmedEnd(start)) });
+    return v;
+  }
+
+  /**
+   * Records the key range of the member that was just parsed
+   * @param keyRange - Range of the key name
+   * @param hasValue - Whether a value was parsed, otherwise the key stands for it
+   */
+  function setKeyLocation(keyRange: SourceRange, hasValue: boolean): void {
+    const loc = locations!.get(pointer());
+    if (loc && hasValue) loc.key = keyRange;
+    else locations!.set(pointer(), { key: keyRange, value: keyRange });
+  }
+
+  /**
+   * Moves the locations of a value and everything inside it to a new pointer
+   * @param from - The current JSON pointer
+   * @param to - The new JSON pointer
+   */
+  function moveLocations(from: string, to: string): void {
+    for (const [p, loc] of Array.from(locations!)) {
+      if (p !== from && !p.startsWith(from + '/')) continue;
+      locations!.delete(p);
+      locations!.set(to + p.slice(from.length), p === from ? { value: loc.value } : loc);
+    }
+  }
+
   /**
    * Determines if a character is a punctuator
    * @param c - The character to check
@@ -52,14 +191,31 @@ export default function parse(source: string, opt?: ParseOptions): any {
   }
 
   /**
-   * Throws an error with position information
+   * Reports a syntax error at the current character
+   * Throws unless diagnostics are collected, in which case the caller
+   * is expected to recover and continue
    * @param m - The error message
+   * @param code - The error code
+   * @param hint - Optional hint about the probable cause
+   * @param offset - Offset of the error, defaults to the current character
+   * @param endOffset - Offset just past the error, defaults to one character
    */
-  function error(m: string): never {
-    let i: number, col = 0, line = 1;
-    for (i = at - 1; i > 0 && text[i] !== '\n'; i--, col++) {}
-    for (; i > 0; i--) if (text[i] === '\n') line++;
-    throw new Error(m + " at line " + line + "," + col + " >>> " + text.substr(at - col, 20) + " ...");
+  function report(m: string, code: HjsonErrorCode, hint?: string, offset: number = at - 1, endOffset?: number): void {
+    const e = syntaxError(text, m, code, offset, endOffset);
+    if (hint) e.hint = hint;
+    if (!diagnostics) throw e;
+    const last = diagnostics[diagnostics.length - 1];
+    if (last && last.offset === e.offset && last.code === code) return;
+    diagnostics.push({
+      message: m,
+      code,
+      severity: 'error',
+      line: e.line,
+      column: e.column,
+      offset: e.offset,
+      endOffset: e.endOffset,
+      hint: e.hint
+    });
   }
 
   /**
@@ -105,7 +261,11 @@ export default function parse(source: string, opt?: ParseOptions): any {
     let string = '';
 
     const exitCh = ch;
+    // Every iteration adds one character, placeholders are reported at its source offset
+    const offsets: number[] | undefined = resolvers && exitCh === '"' ? [] : undefined;
+    stringOffsets = offsets || [];
     while (next()) {
+      offsets?.push(at - 1);
       if (ch === exitCh) {
         next();
         if (allowML && exitCh === "'" && ch === "'" && string.length === 0) {
@@ -126,20 +286,29 @@ export default function parse(source: string, opt?: ParseOptions): any {
             if (currentChar >= '0' && currentChar <= '9') hex = c - 48;
             else if (ch >= 'a' && ch <= 'f') hex = c - 97 + 0xa;
             else if (ch >= 'A' && ch <= 'F') hex = c - 65 + 0xa;
-            else error("Bad \\u char " + ch);
+            else {
+              report("Bad \\u char " + ch, HjsonErrorCode.BadUnicodeEscape);
+              hex = 0;
+            }
             uffff = uffff * 16 + hex;
           }
           string += String.fromCharCode(uffff);
         } else if (typeof escapee[ch] === 'string') {
           string += escapee[ch];
-        } else break;
+        } else {
+          report("Bad string", HjsonErrorCode.BadEscape);
+          string += ch;
+        }
       } else if (ch === '\n' || ch === '\r') {
-        error("Bad string containing newline");
+        // Recover by ending the string at the end of the line
+        report("Bad string containing newline", HjsonErrorCode.StringNewline);
+        return string;
       } else {
         string += ch;
       }
     }
-    error("Bad string");
+    report("Bad string", HjsonErrorCode.UnterminatedString);
+    return string;
   }
 
   /**
@@ -169,7 +338,8 @@ export default function parse(source: string, opt?: ParseOptions): any {
     // Parse multiline string
     for (;;) {
       if (!ch) {
-        error("Bad multiline string");
+        report("Bad multiline string", HjsonErrorCode.UnterminatedMultilineString);
+        return string;
       } else if (ch === '\'') {
         triple++;
         next();
@@ -194,6 +364,18 @@ export default function parse(source: string, opt?: ParseOptions): any {
     }
   }
 
+  /**
+   * Checks if a colon follows on the current line before any other punctuator
+   */
+  function colonAhead(): boolean {
+    for (let i = at - 1; i < text.length; i++) {
+      const c = text[i];
+      if (c === ':') return true;
+      if (c === '\n' || c === '#' || isPunctuatorChar(c)) return false;
+    }
+    return false;
+  }
+
   /**
    * Parses an object key name
    */
@@ -205,14 +387,33 @@ export default function parse(source: string, opt?: ParseOptions): any {
     let name = "", start = at, space = -1;
     for (;;) {
       if (ch === ':') {
-        if (!name) error("Found ':' but no key name (for an empty key name use quotes)");
-        else if (space >= 0 && space !== name.length) { at = start + space; error("Found whitespace in your key name (use quotes to include)"); }
+        if (!name) report("Found ':' but no key name (for an empty key name use quotes)", HjsonErrorCode.EmptyKey);
+        else if (space >= 0 && space !== name.length) {
+          const colonAt = at;
+          at = start + space;
+          report("Found whitespace in your key name (use quotes to include)", HjsonErrorCode.KeyWhitespace);
+          at = colonAt;
+        }
         return name;
       } else if (ch <= ' ') {
-        if (!ch) error("Found EOF while looking for a key name (check your syntax)");
-        else if (space < 0) space = name.length;
+        if (!ch) {
+          if (diagnostics && name) return name;
+          report("Found EOF while looking for a key name (check your syntax)", HjsonErrorCode.KeyEndOfInput);
+          return name;
+        } else if (space < 0) {
+          space = name.length;
+          // When recovering, a name without a colon later on the line is a key missing its colon
+          if (diagnostics && !colonAhead()) return name;
+        }
       } else if (isPunctuatorChar(ch)) {
-        error("Found '" + ch + "' where a key name was expected (check your syntax or use quotes if the key name includes {}[],: or whitespace)");
+        // When recovering, a name followed by a punctuator is a key missing its colon
+        if (diagnostics && name) return name;
+        report("Found '" + ch + "' where a key name was expected (check your syntax or use quotes if the key name includes {}[],: or whitespace)", HjsonErrorCode.KeyPunctuator);
+        // Skip the stray punctuator
+        next();
+        white();
+        start = at;
+        continue;
       } else {
         name += ch;
       }
@@ -285,14 +486,45 @@ export default function parse(source: string, opt?: ParseOptions): any {
     return report('}') || report(']');
   }
 
+  /**
+   * Creates the comment slot of a member or element
+   * @param before - Comments before the value
+   * @param after - Comments after the value
+   * @param lexeme - The spelling of a number that differs from its canonical form
+   * @returns The [before, after] pair, with the spelling as third item if any
+   */
+  function slot(before: string | undefined, after: string | undefined, lexeme?: string): string[] {
+    const res = [before || "", after || ""];
+    if (lexeme !== undefined) res.push(lexeme);
+    return res;
+  }
+
+  /**
+   * Converts a number according to the numbers option
+   * @param lexeme - The number as written
+   * @param n - The parsed number
+   * @returns The number, BigInt or HjsonNumber
+   */
+  function number(lexeme: string, n: number): any {
+    if (keepComments && lexeme !== String(n)) spelling = lexeme;
+    return convertNumber(lexeme, n, numbers);
+  }
+
   /**
    * Parses true, false, null, number or unquoted string
    */
   function tfnns(): any {
+    if (isPunctuatorChar(ch)) {
+      report("Found a punctuator character '" + ch + "' when expecting a quoteless string (check your syntax)", HjsonErrorCode.UnexpectedPunctuator);
+      // Recover by skipping a stray colon, anything else ends the missing value
+      if (ch !== ':') return null;
+      next();
+      return value();
+    }
+
     // Hjson strings can be quoteless
-    let value = ch;
-    if (isPunctuatorChar(ch))
-      error("Found a punctuator character '" + ch + "' when expecting a quoteless string (check your syntax)");
+    const start = at - 1;
+    let str = ch;
 
     for(;;) {
       next();
@@ -303,28 +535,70 @@ export default function parse(source: string, opt?: ParseOptions): any {
         ch === '/' && (peek() === '/' || peek() === '*')
         ) {
         // Check for true, false, null, or number values
-        const chf = value[0];
+        const chf = str[0];
         switch (chf) {
-          case 'f': if (value.trim() === "false") return false; break;
-          case 'n': if (value.trim() === "null") return null; break;
-          case 't': if (value.trim() === "true") return true; break;
+          case 'f': if (str.trim() === "false") return false; break;
+          case 'n': if (str.trim() === "null") return null; break;
+          case 't': if (str.trim() === "true") return true; break;
           default:
             if (chf === '-' || chf >= '0' && chf <= '9') {
-              const n = common.tryParseNumber(value);
-              if (n !== undefined) return n;
+              const n = common.tryParseNumber(str);
+              if (n !== undefined) return number(str.trim(), n);
             }
         }
         if (isEol) {
           // Remove whitespace at the end (ignored in quoteless strings)
-          value = value.trim();
-          const dsfValue = runDsf(value);
-          return dsfValue !== undefined ? dsfValue : value;
+          str = str.trim();
+          if (resolvers && str.includes('${')) return template(str, i => start + i, true);
+          const dsfValue = runDsf(str);
+          return dsfValue !== undefined ? dsfValue : str;
         }
       }
-      value += ch;
+      str += ch;
     }
   }
 
+  /**
+   * Converts the expanded text of a quoteless string like the parser would have
+   * @param str - The text
+   * @returns true, false, null, a number, a DSF value or the text
+   */
+  function quoteless(str: string): any {
+    if (str === 'true') return true;
+    if (str === 'false') return false;
+    if (str === 'null') return null;
+    if (str[0] === '-' || str[0] >= '0' && str[0] <= '9') {
+      const n = common.tryParseNumber(str);
+      if (n !== undefined) return convertNumber(str, n, numbers);
+    }
+    const dsfValue = runDsf(str);
+    return dsfValue !== undefined ? dsfValue : str;
+  }
+
+  /**
+   * Records a string with placeholders, resolved after parsing
+   * @param str - The string as parsed
+   * @param offset - Gets the source offset of a character of the string
+   * @param isQuoteless - Whether the string is quoteless
+   * @returns The string, unescaped if it only has `$${` escapes
+   */
+  function template(str: string, offset: (i: number) => number, isQuoteless: boolean): string {
+    const parts = parseTemplate(str);
+    if (!Array.isArray(parts)) {
+      report(parts.error, HjsonErrorCode.BadPlaceholder, undefined, offset(parts.at));
+      return str;
+    }
+    if (parts.every(part => typeof part === 'string')) return parts.join('');
+    templates.push({
+      keys: path.slice(),
+      raw: str,
+      template: parts,
+      value: text => isQuoteless ? quoteless(text) : text,
+      fail: (m, code, p) => report(m, code, undefined, offset(p.start), offset(p.end - 1) + 1),
+    });
+    return str;
+  }
+
   /**
    * Parses an array value
    */
@@ -345,7 +619,16 @@ export default function parse(source: string, opt?: ParseOptions): any {
       }
   
       while (ch) {
+        if (diagnostics && ch === '}') {
+          report("Found '}' while parsing an array (missing ']')", HjsonErrorCode.UnterminatedArray, errorClosingHint(array));
+          return array;
+        }
+        path.push(array.length);
+        spelling = undefined;
         array.push(value());
+        // Nested values may have left the spelling of their last number
+        const lexeme = typeof array[array.length - 1] === 'number' ? spelling : undefined;
+        path.pop();
         cAt = at;
         white();
         // In Hjson the comma is optional and trailing commas are allowed
@@ -353,22 +636,22 @@ export default function parse(source: string, opt?: ParseOptions): any {
         if (comments) {
           const c = getComment(cAt);
           if (!comments.a) comments.a = [];
-          comments.a.push([nextComment||"", c[0]||""]);
+          comments.a.push(slot(nextComment, c[0], lexeme));
           nextComment = c[1];
         }
         if (ch === ']') {
           next();
-          if (comments && comments.a && comments.a.length > 0) {
-            comments.a[comments.a.length-1][1] += nextComment||"";
-          }
+          // Comments before the closing bracket, like those of an empty array
+          if (comments && nextComment) comments.e = [nextComment, ""];
           return array;
         }
         white();
       }
   
-      error("End of input while parsing an array (missing ']')");
-    } catch (e: any) {
-      e.hint = e.hint || errorClosingHint(array);
+      report("End of input while parsing an array (missing ']')", HjsonErrorCode.UnterminatedArray, errorClosingHint(array));
+      return array;
+    } catch (e) {
+      if (e instanceof HjsonSyntaxError) e.hint = e.hint || errorClosingHint(array);
       throw e;
     }
   }
@@ -378,8 +661,11 @@ export default function parse(source: string, opt?: ParseOptions): any {
    * @param withoutBraces - Whether the object is without braces (root object)
    */
   function object(withoutBraces?: boolean): any {
-    let key = "", object: any = {};
+    let key = "", object: any = nullPrototype ? Object.create(null) : {};
     let comments, cAt, nextComment;
+    let firstStart = -1, lastEnd = 0; // Range of a braceless object
+    const seen = new Map<string, number>(); // Offset of the first occurrence of each key
+    const collected = new Set<string>(); // Duplicate keys gathered into an array
   
     try {
       if (keepComments) comments = common.createComment(object, { c: {}, o: [] });
@@ -390,45 +676,117 @@ export default function parse(source: string, opt?: ParseOptions): any {
       } else cAt = 1;
   
       white();
-      if (comments) nextComment = getComment(cAt, true).join('\n');
+      // The leading comments of a braceless object belong to the root
+      if (comments) nextComment = withoutBraces ? "" : getComment(cAt, true).join('\n');
       if (ch === '}' && !withoutBraces) {
         if (comments) comments.e = [nextComment || "", ""];
         next();
         return object;  // Empty object
       }
       while (ch) {
+        if (diagnostics && ch === ']' && !withoutBraces) {
+          report("Found ']' while parsing an object (missing '}')", HjsonErrorCode.UnterminatedObject, errorClosingHint(object));
+          return object;
+        }
+        const keyStart = at - 1;
         key = keyname();
+        const keyEnd = at - 1;
+        const keyRange = locations ? range(keyStart, trimmedEnd(keyStart)) : undefined;
+        let hasValue = true;
         white();
-        if (ch !== ':') error("Expected ':' instead of '" + ch + "'");
-        next();
-        // Duplicate keys overwrite the previous value
-        object[key] = value();
+        if (ch !== ':') {
+          report("Expected ':' instead of '" + ch + "'", HjsonErrorCode.MissingColon);
+          if (!ch && !key) break;
+          // Recover with a null value unless the value follows on the same line
+          hasValue = !!ch && ch !== ',' && ch !== '}' && ch !== ']' && text.slice(keyEnd, at - 1).indexOf('\n') < 0;
+        } else next();
+
+        const first = seen.get(key);
+        let ignore = first !== undefined && duplicateKeys === 'first';
+        if (key === '__proto__' && protoKeys !== 'preserve') {
+          if (protoKeys === 'error')
+            report("Key '" + key + "' is not allowed", HjsonErrorCode.ProtoKey, "Set protoKeys to 'preserve' to keep it as an own property", keyStart);
+          ignore = true;
+        } else if (first === undefined) seen.set(key, keyStart);
+        else if (duplicateKeys === 'error') {
+          const pos = lineColumn(text, first);
+          report("Duplicate key '" + key + "', first defined at line " + pos.line + ", column " + pos.column,
+            HjsonErrorCode.DuplicateKey, "Remove or rename one of the keys", keyStart);
+        }
+        path.push(key);
+        spelling = undefined;
+        if (ignore) {
+          // Parse and drop the value, keeping the locations recorded so far
+          const kept = locations && new Map(locations);
+          const keptTemplates = templates.length;
+          if (hasValue) value();
+          templates.length = keptTemplates;
+          if (kept) {
+            locations!.clear();
+            kept.forEach((loc, p) => locations!.set(p, loc));
+          }
+        } else if (first === undefined || duplicateKeys === 'last' || duplicateKeys === 'error') {
+          // Duplicate keys overwrite the previous value
+          common.setOwn(object, key, hasValue ? value() : null);
+          if (keyRange) setKeyLocation(keyRange, hasValue);
+        } else {
+          if (!collected.has(key)) {
+            collected.add(key);
+            common.setOwn(object, key, [object[key]]);
+            if (locations) moveLocations(pointer(), pointer() + '/0');
+            templates.forEach(t => {
+              if (t.keys.length >= path.length && path.every((k, i) => t.keys[i] === k)) t.keys.splice(path.length, 0, 0);
+            });
+          }
+          path.push(object[key].length);
+          object[key].push(hasValue ? value() : null);
+          if (keyRange && !hasValue) locations!.set(pointer(), { value: keyRange });
+          path.pop();
+        }
+        path.pop();
+        if (firstStart < 0) firstStart = keyStart;
+        lastEnd = trimmedEnd(firstStart);
         cAt = at;
         white();
         // In Hjson the comma is optional and trailing commas are allowed
         if (ch as string === ',') { next(); cAt = at; white(); }
         if (comments) {
           const c = getComment(cAt);
-
-          if (!comments.c) comments.c = {};
-          comments.c[key] = [nextComment||"", c[0]||""];
+          const member = slot(nextComment, c[0], typeof object[key] === 'number' ? spelling : undefined);
           nextComment = c[1];
 
+          if (!comments.c) comments.c = {};
           if (!comments.o) comments.o = [];
-          comments.o.push(key);
+          if (ignore) {
+            // Ignored members lose their comments
+          } else if (first === undefined) {
+            common.setOwn(comments.c, key, member);
+            comments.o.push(key);
+          } else if (duplicateKeys === 'collect') {
+            // The comments of each occurrence move to its array element
+            const collectedComments = common.getComment(object[key]) || common.createComment(object[key], { a: [comments.c[key]] });
+            collectedComments.a.push(member);
+            common.setOwn(comments.c, key, ["", ""]);
+          } else common.setOwn(comments.c, key, member);
         }
         if (ch as string === '}' && !withoutBraces) {
           next();
-          if (comments && comments.c) comments.c[key][1] += nextComment||"";
+          // Comments before the closing brace, like those of an empty object
+          if (comments && nextComment) comments.e = [nextComment, ""];
           return object;
         }
         white();
       }
   
-      if (withoutBraces) return object;
-      else error("End of input while parsing an object (missing '}')");
-    } catch (e: any) {
-      e.hint = e.hint || errorClosingHint(object);
+      if (!withoutBraces) report("End of input while parsing an object (missing '}')", HjsonErrorCode.UnterminatedObject, errorClosingHint(object));
+      else {
+        // Comments after the last member of a braceless object
+        if (comments && nextComment) comments.e = [nextComment, ""];
+        if (locations) locations.set(pointer(), { value: range(Math.max(firstStart, 0), lastEnd) });
+      }
+      return object;
+    } catch (e) {
+      if (e instanceof HjsonSyntaxError) e.hint = e.hint || errorClosingHint(object);
       throw e;
     }
   }
@@ -440,12 +798,16 @@ export default function parse(source: string, opt?: ParseOptions): any {
     // Parse a Hjson value. It could be an object, an array, a string, a number or a word.
 
     white();
+    const start = at - 1;
     switch (ch) {
-      case '{': return object();
-      case '[': return array();
-      case "'":
-      case '"': return string(true);
-      default: return tfnns();
+      case '{': return located(start, object());
+      case '[': return located(start, array());
+      case "'": return located(start, string(true));
+      case '"': {
+        const str = string(true);
+        return located(start, resolvers ? template(str, i => stringOffsets[i], false) : str);
+      }
+      default: return located(start, tfnns());
     }
   }
 
@@ -457,7 +819,7 @@ export default function parse(source: string, opt?: ParseOptions): any {
   function checkTrailing(v: any, c: string[]): any {
     const cAt = at;
     white();
-    if (ch) error("Syntax error, found trailing characters");
+    if (ch) report("Syntax error, found trailing characters", HjsonErrorCode.TrailingCharacters);
     if (keepComments) {
       const b = c.join('\n'), a = getComment(cAt).join('\n');
       if (a || b) {
@@ -474,9 +836,10 @@ export default function parse(source: string, opt?: ParseOptions): any {
   function rootValue(): any {
     white();
     const c = keepComments ? getComment(1) : [];
+    const start = at - 1;
     switch (ch) {
-      case '{': return checkTrailing(object(), c);
-      case '[': return checkTrailing(array(), c);
+      case '{': return checkTrailing(located(start, object()), c);
+      case '[': return checkTrailing(located(start, array()), c);
       default: return checkTrailing(value(), c);
     }
   }
@@ -488,24 +851,110 @@ export default function parse(source: string, opt?: ParseOptions): any {
   function legacyRootValue(): any {
     white();
     const c = keepComments ? getComment(1) : [];
+    const start = at - 1;
     switch (ch) {
-      case '{': return checkTrailing(object(), c);
-      case '[': return checkTrailing(array(), c);
+      case '{': return checkTrailing(located(start, object()), c);
+      case '[': return checkTrailing(located(start, array()), c);
     }
 
+    if (diagnostics) return legacyRootRecover(diagnostics, c);
+
     try {
       // Assume we have a root object without braces
       return checkTrailing(object(true), c);
     } catch (e: any) {
+      // A rejected key is not a reason to read the document as a single string
+      if (e.code === HjsonErrorCode.ProtoKey) throw e;
       // Test if we are dealing with a single JSON value instead (true/false/null/num/"")
       resetAt();
+      locations?.clear();
       try { return checkTrailing(value(), c); }
       catch (e2) { throw e; } // Throw original error
     }
   }
 
+  /**
+   * Parses a braceless root or single value while collecting diagnostics
+   * Keeps whichever interpretation has fewer problems, preferring the object
+   * @param diagnostics - The collected diagnostics
+   * @param c - Array of comments
+   */
+  function legacyRootRecover(diagnostics: Diagnostic[], c: string[]): any {
+    const found = diagnostics.length;
+    const v = checkTrailing(object(true), c);
+    if (diagnostics.length === found) return v;
+
+    const objectDiagnostics = diagnostics.splice(found);
+    const rejectedKey = objectDiagnostics.some(d => d.code === HjsonErrorCode.ProtoKey);
+    const objectLocations = locations && new Map(locations);
+    const objectTemplates = templates;
+    resetAt();
+    locations?.clear();
+    const single = checkTrailing(value(), c);
+    if (!rejectedKey && diagnostics.length - found < objectDiagnostics.length) return single;
+    diagnostics.splice(found, diagnostics.length - found, ...objectDiagnostics);
+    locations?.clear();
+    objectLocations?.forEach((loc, p) => locations!.set(p, loc));
+    templates = objectTemplates;
+    return v;
+  }
+
+  /**
+   * Calls the reviver for a value after its children, like JSON.parse
+   * @param holder - The object or array holding the value
+   * @param key - The key or index of the value
+   * @param keys - The path of the value in the source
+   * @returns The revived value
+   */
+  function revive(holder: any, key: string | number, keys: (string | number)[]): any {
+    const v = holder[key];
+    if (v !== null && typeof v === 'object') {
+      if (Array.isArray(v)) {
+        // Removed elements shift the ones after them
+        for (let n = 0, i = 0, length = v.length; n < length; n++) {
+          const r = revive(v, i, keys.concat(n));
+          if (r === undefined) removeEntry(v, i);
+          else v[i++] = r;
+        }
+      } else {
+        for (const k of Object.keys(v)) {
+          const r = revive(v, k, keys.concat(k));
+          if (r === undefined) removeEntry(v, k);
+          else common.setOwn(v, k, r);
+        }
+      }
+    }
+
+    const loc = locations!.get(pointer(keys))?.value;
+    const source = loc ? text.slice(loc.start.offset, loc.end.offset) : "";
+    const context: ReviverContext = { path: keys, source };
+    if (v === null || typeof v !== 'object') {
+      context.style = source.startsWith("'''") ? 'multiline' : source[0] === '"' || source[0] === "'" ? 'quoted' : 'quoteless';
+    }
+    return reviver!.call(holder, String(key), v, context);
+  }
+
   // Start parsing
   if (typeof source !== "string") throw new Error("source is not a string");
   resetAt();
-  return legacyRoot ? legacyRootValue() : rootValue();
+  const result = legacyRoot ? legacyRootValue() : rootValue();
+
+  /**
+   * Resolves references, converts collections and runs the reviver once placeholders are resolved
+   * @param v - The parsed value
+   */
+  const finish = (v: any): any => {
+    if (references) v = resolveReferences(v, references === 'merge', (m, code, keys) =>
+      report(m, code, undefined, locations!.get(pointer(keys.concat('$ref')))?.value.start.offset ?? 0));
+    if (opt?.collections) v = toCollections(v, opt.collections);
+    return reviver ? revive({ "": v }, "", []) : v;
+  };
+  if (!templates.length) return finish(result);
+  const resolved = interpolate(result, templates, resolvers!);
+  if (!isPromise(resolved)) return finish(resolved);
+  if (!allowAsync) {
+    resolved.then(undefined, () => {});
+    throw new Error("an interpolation resolver returned a promise, use parseAsync");
+  }
+  return resolved.then(finish);
 }
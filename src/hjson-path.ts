@@ -0,0 +1,30 @@
+/**
+ * Hjson file paths
+ * Resolves the `/` separated paths used by the command-line tool and the file loader
+ */
+
+/**
+ * Resolves a path against a directory
+ * @param dir - The directory, empty if unknown
+ * @param path - The path, with `/` separators
+ */
+export function resolvePath(dir: string, path: string): string {
+  const absolute = path.startsWith('/') || /^[A-Za-z]:\//.test(path);
+  const parts: string[] = [];
+  (absolute || !dir ? path : dir + '/' + path).split('/').forEach((part, i) => {
+    if (part === '..' && parts.length && parts[parts.length - 1] !== '..' && parts[parts.length - 1] !== '') parts.pop();
+    else if (part !== '.' && (part !== '' || i === 0)) parts.push(part);
+  });
+  return parts.join('/') || '.';
+}
+
+/**
+ * Gets the directory of a path
+ * @param path - The path, with `/` separators
+ * @returns The directory, `.` for a relative name and `/` at the root
+ */
+export function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  if (slash < 0) return /^[A-Za-z]:$/.test(path) ? path : '.';
+  return slash === 0 ? '/' : path.slice(0, slash);
+}
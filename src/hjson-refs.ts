@@ -0,0 +1,128 @@
+/**
+ * Hjson references
+ * Resolves `{ $ref: "#/pointer" }` objects to the values they point to
+ */
+
+import * as common from './hjson-common';
+import { HjsonErrorCode } from './types/errors';
+
+/**
+ * The key of a reference
+ */
+const refKey = '$ref';
+
+/**
+ * Returned by a lookup when the path does not exist
+ */
+const notFound = Symbol('notFound');
+
+/**
+ * Thrown when a value is needed while it is being resolved
+ */
+const cycle = { cycle: true };
+
+/**
+ * Resolves the references of a parsed document
+ * A reference without other keys is replaced by the value it points to, which
+ * is then shared. Other keys are deep-merged over a copy of the target when
+ * `merge` is set. A reference that cannot be resolved is kept as it is when
+ * `fail` returns.
+ * @param root - The parsed document
+ * @param merge - Whether keys next to `$ref` are merged over the target
+ * @param fail - Reports a problem with the reference at a path, throws unless
+ * diagnostics are collected
+ * @returns The document with references resolved
+ */
+export function resolveReferences(root: any, merge: boolean, fail: (message: string, code: HjsonErrorCode, keys: (string | number)[]) => void): any {
+  const resolving = new Set<any>(); // Objects and arrays being resolved
+  const resolved = new Map<any, any>(); // Resolved objects and arrays, references mapped to their value
+
+  /**
+   * Checks if a value is a reference object
+   * @param v - The value
+   */
+  const isReference = (v: any): boolean => common.isPlainObject(v) && Object.prototype.hasOwnProperty.call(v, refKey);
+
+  /**
+   * Resolves a value and everything inside it
+   * @param v - The value
+   * @param keys - Keys and indices from the root, for error positions
+   * @returns The resolved value
+   */
+  const resolve = (v: any, keys: (string | number)[]): any => {
+    if (!Array.isArray(v) && !common.isPlainObject(v)) return v;
+    if (resolved.has(v)) return resolved.get(v);
+    if (resolving.has(v)) throw cycle;
+    resolving.add(v);
+    try {
+      let res = v;
+      if (isReference(v)) res = reference(v, keys);
+      else if (Array.isArray(v)) v.forEach((item, i) => { v[i] = resolve(item, keys.concat(i)); });
+      else Object.keys(v).forEach(key => common.setOwn(v, key, resolve(v[key], keys.concat(key))));
+      resolved.set(v, res);
+      return res;
+    } finally {
+      resolving.delete(v);
+    }
+  };
+
+  /**
+   * Gets the resolved value at a path, following references on the way
+   * Containers on the way may still be resolving, only their member at the path is resolved.
+   * @param keys - Keys and indices from the root
+   * @returns The value, or `notFound`
+   */
+  const lookup = (keys: string[]): any => {
+    let v = root;
+    for (let i = 0; i < keys.length; i++) {
+      if (isReference(v) || resolved.has(v)) v = resolve(v, keys.slice(0, i));
+      if (v === null || typeof v !== 'object' || !Object.prototype.hasOwnProperty.call(v, keys[i])) return notFound;
+      v = v[keys[i]];
+    }
+    return resolve(v, keys);
+  };
+
+  /**
+   * Resolves a reference object
+   * @param v - The object with a `$ref` key
+   * @param keys - Keys and indices from the root
+   * @returns The value it points to, merged with its other keys
+   */
+  const reference = (v: any, keys: (string | number)[]): any => {
+    const ref = v[refKey];
+    if (typeof ref !== 'string' || !/^#(\/|$)/.test(ref)) {
+      fail("Expected a JSON pointer within the document like \"#/defaults\", found " + JSON.stringify(ref), HjsonErrorCode.BadReference, keys);
+      return v;
+    }
+    const path = ref.length > 1 ? ref.slice(2).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~')) : [];
+
+    let target: any;
+    try {
+      target = lookup(path);
+    } catch (e) {
+      if (e !== cycle) throw e;
+      fail("Circular reference " + ref, HjsonErrorCode.CircularReference, keys);
+      return v;
+    }
+    if (target === notFound) {
+      fail("Reference " + ref + " not found", HjsonErrorCode.BadReference, keys);
+      return v;
+    }
+
+    const others = Object.keys(v).filter(key => key !== refKey);
+    if (!others.length) return target;
+    if (!merge) {
+      fail("Keys next to $ref are only merged when references is 'merge'", HjsonErrorCode.BadReference, keys);
+      return v;
+    }
+    if (!common.isPlainObject(target)) {
+      fail("Cannot merge keys into " + ref + ", it is not an object", HjsonErrorCode.BadReference, keys);
+      return v;
+    }
+    const own = Object.create(Object.getPrototypeOf(v));
+    others.forEach(key => common.setOwn(own, key, resolve(v[key], keys.concat(key))));
+    return common.deepMerge(target, own);
+  };
+
+  return resolve(root, []);
+}
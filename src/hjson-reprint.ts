@@ -0,0 +1,442 @@
+/**
+ * Hjson reprinter
+ * Stringifies a value by editing the text it was parsed from, so that the
+ * parts of the document that did not change are kept byte for byte
+ */
+
+import { StringifyOptions } from './types/stringify-options';
+import { CstArray, CstMember, CstNode, CstObject, CstString, CstValue } from './types/cst';
+import * as common from './hjson-common';
+import parse from './hjson-parse';
+import { parseToCst } from './hjson-cst';
+import stringify from './hjson-stringify';
+
+/**
+ * A member or element of a container in the source
+ * The regions `[lead, node.start)`, the node itself and `[node.end, tail)`
+ * cover the source without gaps.
+ */
+interface Entry {
+  /** The member or element */
+  node: CstMember | CstValue;
+  /** Start of the lines above the node, usually comments */
+  lead: number;
+  /** End of the rest of the node's line, including its newline */
+  tail: number;
+}
+
+/**
+ * An item of the printed container: a source entry, a new value, or both
+ */
+interface Item {
+  entry?: Entry;
+  key: string | number;
+}
+
+/**
+ * Splits a comment into its lines, trimmed
+ * @param text - The comment text
+ */
+function commentLines(text: string | undefined): string[] {
+  return text ? text.split('\n').map(line => line.trim()) : [];
+}
+
+/**
+ * Checks if two comments have the same lines, ignoring indentation
+ * @param a - The first comment text
+ * @param b - The second comment text
+ */
+function sameComment(a: string | undefined, b: string | undefined): boolean {
+  return commentLines(a).join('\n').trim() === commentLines(b).join('\n').trim();
+}
+
+/**
+ * Splits the comment after a value into its first line and the lines below
+ * Unlike `comments.splitAfter`, the lines below do not start with a newline.
+ * @param after - The comment after a value
+ */
+function splitBelow(after: string | undefined): [string, string] {
+  if (!after) return ["", ""];
+  const nl = after.indexOf('\n');
+  return nl < 0 ? [after, ""] : [after.slice(0, nl), after.slice(nl + 1)];
+}
+
+/**
+ * Stringifies a value, copying every unchanged part from its source text
+ * @param source - The Hjson text the value was parsed from
+ * @param value - The value, possibly edited
+ * @param opt - Stringify options used for the parts that are re-printed
+ * @returns The Hjson text
+ */
+export default function reprint(source: string, value: any, opt?: StringifyOptions): string {
+  const doc = parseToCst(source, opt?.sourceOptions);
+  const original = parse(source, { protoKeys: 'preserve', ...opt?.sourceOptions, keepWhitespaceAndComments: true, locations: false });
+  const keepComments = opt?.keepWhitespaceAndComments ?? false;
+  const eol = opt?.eol ?? (source.indexOf('\r\n') >= 0 ? '\r\n' : '\n');
+  const unit = typeof opt?.space === 'number' ? ' '.repeat(opt.space) :
+    opt?.space ?? (/\n([ \t]+)\S/.exec(source)?.[1] || '  ');
+  const fresh: StringifyOptions = { ...opt, source: undefined, sourceOptions: undefined, eol, space: unit };
+
+  /**
+   * Gets the start of the line containing an offset
+   * @param offset - The offset
+   */
+  function lineStart(offset: number): number {
+    return source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  /**
+   * Gets the indentation of the line containing an offset
+   * @param offset - The offset
+   */
+  function lineIndent(offset: number): string {
+    return /^[ \t]*/.exec(source.slice(lineStart(offset)))![0];
+  }
+
+  /**
+   * Checks if only whitespace precedes an offset on its line
+   * @param offset - The offset
+   */
+  function startsLine(offset: number): boolean {
+    return /^[ \t]*$/.test(source.slice(lineStart(offset), offset));
+  }
+
+  /**
+   * Checks if only whitespace follows an offset on its line
+   * @param offset - The offset
+   */
+  function endsLine(offset: number): boolean {
+    return /^[ \t]*(\r?\n|$)/.test(source.slice(offset));
+  }
+
+  /**
+   * Indents every line but the first of a printed value
+   * @param text - The printed value
+   * @param indent - The indentation
+   */
+  function reindent(text: string, indent: string): string {
+    return text.replace(/\n(?=[^\r\n])/g, '\n' + indent);
+  }
+
+  /**
+   * Prints comment lines, each followed by a newline
+   * @param text - The comment text
+   * @param indent - The indentation of the lines
+   */
+  function printComments(text: string | undefined, indent: string): string {
+    return commentLines(text).map(line => (line ? indent + line : '') + eol).join('');
+  }
+
+  /**
+   * Prints a new value of a container, with its comments
+   * @param wrapper - An object or array holding only the value
+   * @param indent - The indentation of the value
+   */
+  function printNew(wrapper: any, indent: string): string {
+    let text = stringify(wrapper, { ...fresh, keepWhitespaceAndComments: true, emitRootBraces: false });
+    if (Array.isArray(wrapper)) {
+      // Remove the brackets and their indentation
+      text = text.slice(text.indexOf('\n') + 1, text.lastIndexOf('\n') + 1);
+      text = text.split('\n').map(line => line.startsWith(unit) ? line.slice(unit.length) : line).join('\n');
+    }
+    if (!text.endsWith('\n')) text += eol;
+    return indent + reindent(text, indent).replace(/[ \t]+$/, '');
+  }
+
+  /**
+   * Prints a changed value in place of a source node
+   * @param node - The source node
+   * @param v - The new value
+   */
+  function printValue(node: CstValue, v: any): string {
+    const styled = node.type === 'string' && typeof v === 'string' ? printInStyle(node, v) : undefined;
+    if (styled !== undefined) return styled;
+    const quoted = node.type === 'string' && node.style !== 'quoteless' && node.style !== 'multiline';
+    // A quoteless string would swallow whatever follows on the line
+    const options = typeof v === 'string' && (quoted || !endsLine(node.end)) ? { ...fresh, quotes: 'strings' as const } : fresh;
+    return reindent(stringify(v, options), lineIndent(node.start));
+  }
+
+  /**
+   * Prints a string in the single-quoted or multiline style of its source node
+   * @param node - The source string
+   * @param v - The new string
+   * @returns The printed string, or undefined when the style cannot hold it
+   */
+  function printInStyle(node: CstString, v: string): string | undefined {
+    const control = [...v].some(c => c < ' ' && c !== '\n' && c !== '\t');
+    if (node.style === 'single') return control || /['\\\n\t]/.test(v) ? undefined : "'" + v + "'";
+    if (node.style !== 'multiline' || control || !v.trim() || v.indexOf("'''") >= 0) return undefined;
+    // The one-line form loses leading whitespace and cannot end with a quote
+    if (node.raw.indexOf('\n') < 0 && !/\n|^\s|'$/.test(v)) return "'''" + v + "'''";
+    // The parser removes up to the column of the opening quotes from every line
+    const column = source.slice(lineStart(node.start), node.start);
+    const indent = /^[ \t]*$/.test(column) ? column : ' '.repeat(column.length);
+    return "'''" + eol + v.split('\n').map(line => line ? indent + line : '').join(eol) + eol + indent + "'''";
+  }
+
+  /**
+   * Splits the children of a container into entries
+   * @param children - The children of the container
+   * @param nodes - The members or elements
+   * @param from - Where the first entry starts
+   * @returns The entries
+   */
+  function entries(children: CstNode[], nodes: (CstMember | CstValue)[], from: number): Entry[] {
+    const result: Entry[] = [];
+    let lead = from;
+    nodes.forEach((node, n) => {
+      let tail = n + 1 < nodes.length ? nodes[n + 1].start : -1;
+      for (let i = children.indexOf(node) + 1; i < children.length && children[i] !== nodes[n + 1]; i++) {
+        const child = children[i];
+        if (child.type === 'whitespace' && child.raw.indexOf('\n') >= 0) {
+          tail = child.start + child.raw.indexOf('\n') + 1;
+          break;
+        }
+        if (child.type === 'punctuator') {
+          tail = child.start;
+          break;
+        }
+        tail = child.end;
+      }
+      if (tail < 0) tail = node.end;
+      result.push({ node, lead, tail });
+      lead = tail;
+    });
+    return result;
+  }
+
+  /**
+   * Prints an object or array, reusing its source entries
+   * @param node - The source node
+   * @param o - The original value
+   * @param v - The new value
+   */
+  function printContainer(node: CstObject | CstArray, o: any, v: any): string {
+    const isArray = node.type === 'array';
+    const nodes: (CstMember | CstValue)[] = isArray ? node.elements : node.members;
+    const braces = isArray || node.braces;
+    const keys: (string | number)[] = isArray ? v.map((_: any, i: number) => i) : Object.keys(v);
+    if (nodes.length === 0) return keys.length === 0 ? source.slice(node.start, node.end) : printValue(node, v);
+
+    const closeAt = braces ? node.end - 1 : node.end;
+    const openEnd = braces ? node.start + 1 : node.start;
+    const firstNl = source.indexOf('\n', openEnd);
+    const from = firstNl >= 0 && firstNl < nodes[0].start ? firstNl + 1 : openEnd;
+    const list = entries(node.children, nodes, from);
+    const closeIndent = braces ? lineIndent(node.start) : '';
+    const lined = list.find(e => startsLine(e.node.start));
+    const itemIndent = lined ? lineIndent(lined.node.start) : closeIndent + unit;
+    const oc = common.getComment(o);
+    const vc = keepComments ? common.getComment(v) : undefined;
+    const items = isArray ? alignElements(list, o, v) : alignMembers(list, v, vc);
+
+    /**
+     * Gets the [before, after] comments of an item
+     * @param comments - The comments of the container
+     * @param key - The key or index
+     */
+    function slot(comments: any, key: string | number): [string, string] {
+      return (isArray ? comments?.a?.[key] : common.getOwn(comments?.c, key)) || ["", ""];
+    }
+
+    /**
+     * Gets the source key or index of an entry
+     * @param entry - The entry
+     */
+    function sourceKey(entry: Entry): string | number {
+      return isArray ? list.indexOf(entry) : (entry.node as CstMember).key.value;
+    }
+
+    /**
+     * Prints the member or element of a source entry
+     * @param entry - The entry
+     * @param key - The key or index in the new value
+     */
+    function printEntry(entry: Entry, key: string | number): string {
+      const valueNode = entry.node.type === 'member' ? entry.node.value : entry.node;
+      return source.slice(entry.node.start, valueNode.start) +
+        print(valueNode, o[sourceKey(entry)], v[key]) +
+        source.slice(valueNode.end, entry.node.end);
+    }
+
+    /**
+     * Prints a container written on one line, keeping it on one line
+     * @returns The printed container, or undefined when it has comments
+     */
+    function printInline(): string | undefined {
+      if (node.children.some(child => child.type === 'comment')) return undefined;
+      if (vc && items.some(item => slot(vc, item.key).join('').trim())) return undefined;
+      const between = list.length > 1 ? source.slice(list[0].node.end, list[1].node.start) : '';
+      const separator = /^[ \t]*,[ \t]*$/.test(between) ? between : ', ';
+      // A quoteless string would swallow the separator
+      const quotes = fresh.quotes === 'keys' || fresh.quotes === 'all' ? 'all' as const : 'strings' as const;
+      const parts: string[] = [];
+      for (const item of items) {
+        if (item.entry) {
+          parts.push(printEntry(item.entry, item.key));
+          continue;
+        }
+        const text = stringify(isArray ? v[item.key] : { [item.key]: v[item.key] }, { ...fresh, quotes, emitRootBraces: isArray }).trim();
+        // Without comments to keep, the whole container is printed anew
+        if (text.indexOf('\n') >= 0) return printValue(node, v);
+        parts.push(text);
+      }
+      const open = source.slice(node.start, openEnd), close = source.slice(closeAt, node.end);
+      if (parts.length === 0) return open + close;
+      return open + source.slice(openEnd, list[0].node.start) + parts.join(separator) +
+        source.slice(list[list.length - 1].node.end, closeAt) + close;
+    }
+
+    if (braces && source.slice(node.start, node.end).indexOf('\n') < 0) {
+      const inline = printInline();
+      if (inline !== undefined) return inline;
+    }
+
+    let out = source.slice(node.start, from);
+    items.forEach(item => {
+      const entry = item.entry;
+      const before = vc ? slot(vc, item.key)[0] : undefined;
+      const [after, below] = vc ? splitBelow(slot(vc, item.key)[1]) : ["", ""];
+
+      if (!entry) {
+        // A new member or element
+        if (out && !out.endsWith('\n')) out += eol;
+        const wrapper: any = isArray ? [v[item.key]] : { [item.key]: v[item.key] };
+        const comments = [before || "", after + (below ? '\n' + below : "")];
+        common.createComment(wrapper, isArray ? { a: [comments] } : { c: { [item.key]: comments }, o: [item.key as string] });
+        out += printNew(wrapper, itemIndent);
+        return;
+      }
+
+      const [oBefore, oAfter] = slot(oc, sourceKey(entry));
+      if (vc && !sameComment(before, oBefore)) {
+        out += (out && !out.endsWith('\n') ? eol : '') + printComments(before, itemIndent) + itemIndent;
+      } else {
+        out += source.slice(entry.lead, entry.node.start);
+      }
+
+      out += printEntry(entry, item.key);
+
+      const tail = source.slice(entry.node.end, entry.tail);
+      if (vc && !sameComment(after, splitBelow(oAfter)[0])) {
+        // Keep separators, replace the comment
+        const comment = /^[\s,]*/.exec(tail)![0].replace(/\s+$/, '');
+        out += comment + (after.trim() ? ' ' + common.forceComment(after.trim()) : '');
+        out += tail.endsWith('\n') || after.trim() ? eol : '';
+      } else {
+        out += tail;
+      }
+      if (below) out += printComments(below, itemIndent);
+    });
+
+    // The region before the closing brace holds the closing comments
+    const closing = source.slice(list[list.length - 1].tail, closeAt);
+    const lastItem = items[items.length - 1];
+    const lastEntry = list[list.length - 1];
+    if (vc && !sameComment(vc.e?.[0], oc?.e?.[0])) {
+      if (out && !out.endsWith('\n')) out += eol;
+      out += printComments(vc.e?.[0], itemIndent) + closeIndent;
+    } else if (lastItem?.entry !== lastEntry && out.endsWith('\n') && closing.indexOf('\n') < 0) {
+      out += closeIndent + closing.trimStart();
+    } else {
+      out += closing;
+    }
+    return out + source.slice(closeAt, node.end);
+  }
+
+  /**
+   * Matches the members of the new object to the source members
+   * Members keep their source position; new keys follow the key before them.
+   * @param list - The source entries
+   * @param v - The new object
+   * @param vc - The comments of the new object
+   */
+  function alignMembers(list: Entry[], v: any, vc: any): Item[] {
+    const own = (k: string) => Object.prototype.hasOwnProperty.call(v, k);
+    const order: string[] = (vc?.o || []).filter(own);
+    Object.keys(v).forEach(k => { if (order.indexOf(k) < 0) order.push(k); });
+
+    // With duplicate keys, the last member holds the value
+    const live = new Map<string, Entry>();
+    list.forEach(e => live.set((e.node as CstMember).key.value, e));
+
+    const added = new Map<Entry | undefined, string[]>();
+    let anchor: Entry | undefined;
+    order.forEach(k => {
+      if (live.has(k)) anchor = live.get(k);
+      else {
+        if (!added.has(anchor)) added.set(anchor, []);
+        added.get(anchor)!.push(k);
+      }
+    });
+
+    const items: Item[] = (added.get(undefined) || []).map(key => ({ key }));
+    list.forEach(e => {
+      const key = (e.node as CstMember).key.value;
+      if (!own(key)) return;
+      items.push({ entry: e, key });
+      (added.get(e) || []).forEach(k => items.push({ key: k }));
+    });
+    return items;
+  }
+
+  /**
+   * Matches the elements of the new array to the source elements
+   * Equal elements are matched by their longest common subsequence, the
+   * remaining ones in between are paired up by position.
+   * @param list - The source entries
+   * @param o - The original array
+   * @param v - The new array
+   */
+  function alignElements(list: Entry[], o: any[], v: any[]): Item[] {
+    const n = o.length, m = v.length;
+    const matches: [number, number][] = [];
+    if (n * m <= 1000000) {
+      const lcs: number[][] = Array.from({ length: n + 1 }, () => Array.from({ length: m + 1 }, () => 0));
+      for (let i = n - 1; i >= 0; i--)
+        for (let j = m - 1; j >= 0; j--)
+          lcs[i][j] = common.deepEqual(o[i], v[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      for (let i = 0, j = 0; i < n && j < m;) {
+        if (common.deepEqual(o[i], v[j]) && lcs[i][j] === lcs[i + 1][j + 1] + 1) matches.push([i++, j++]);
+        else if (lcs[i + 1][j] >= lcs[i][j + 1]) i++;
+        else j++;
+      }
+    }
+    matches.push([n, m]);
+
+    const items: Item[] = [];
+    let i = 0, j = 0;
+    for (const [mi, mj] of matches) {
+      for (; j < mj; j++) items.push(i < mi ? { entry: list[i++], key: j } : { key: j });
+      i = mi;
+      if (mi < n) items.push({ entry: list[i++], key: j++ });
+    }
+    return items;
+  }
+
+  /**
+   * Prints a value, reusing the source node where possible
+   * @param node - The source node
+   * @param o - The original value
+   * @param v - The new value
+   */
+  function print(node: CstValue, o: any, v: any): string {
+    if (!keepComments && common.deepEqual(o, v)) return source.slice(node.start, node.end);
+    if (node.type === 'object' && common.isPlainObject(o) && common.isPlainObject(v)) return printContainer(node, o, v);
+    if (node.type === 'array' && Array.isArray(o) && Array.isArray(v)) return printContainer(node, o, v);
+    if (common.deepEqual(o, v)) return source.slice(node.start, node.end);
+    return printValue(node, v);
+  }
+
+  // Header and footer comments of the document
+  const root = doc.value;
+  const oc = common.getComment(original);
+  const vc = keepComments ? common.getComment(value) : undefined;
+  let header = source.slice(0, root.start);
+  let footer = source.slice(root.end);
+  if (vc && !sameComment(vc.r?.[0], oc?.r?.[0])) header = vc.r?.[0] ? vc.r[0] + eol : "";
+  if (vc && !sameComment(vc.r?.[1], oc?.r?.[1])) footer = (vc.r?.[1] || "") + (source.endsWith('\n') ? eol : "");
+
+  return header + print(root, original, value) + footer;
+}
@@ -0,0 +1,56 @@
+/**
+ * Hjson interpolation resolvers
+ * Supply placeholder values from variables, the document itself or another file
+ */
+
+import parse from './hjson-parse';
+import * as common from './hjson-common';
+import { andThen } from './hjson-interpolate';
+import { InterpolationResolver } from './types/interpolation';
+
+/**
+ * Looks up a dotted path like `db.hosts.0` in a value
+ * @param value - The value
+ * @param name - The path
+ */
+function lookupPath(value: any, name: string): unknown {
+  for (const key of name.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = common.getOwn(value, key);
+  }
+  return value;
+}
+
+/**
+ * Built-in resolvers for `ParseOptions.interpolate`
+ */
+export const resolvers = {
+  /**
+   * Resolves names from an object of variables, such as `process.env`
+   * @param vars - The variables
+   */
+  env: (vars: Record<string, string | undefined>): InterpolationResolver =>
+    (name) => common.getOwn(vars, name),
+
+  /**
+   * Resolves dotted paths like `${db.host}` to other values of the same document
+   * @param prefix - A prefix the names must start with, removed before the lookup
+   */
+  document: (prefix: string = ''): InterpolationResolver =>
+    (name, context) => name.startsWith(prefix) ? context.lookup(name.slice(prefix.length).split('.')) : undefined,
+
+  /**
+   * Resolves dotted paths from an Hjson file, such as a local secrets file
+   * The file is read and parsed once, on the first lookup.
+   * @param read - Reads the text of the file, possibly asynchronously
+   * @param prefix - A prefix the names must start with, removed before the lookup
+   */
+  file: (read: () => string | PromiseLike<string>, prefix: string = ''): InterpolationResolver => {
+    let values: any;
+    return (name) => {
+      if (!name.startsWith(prefix)) return undefined;
+      if (values === undefined) values = andThen(read(), text => values = parse(text));
+      return andThen(values, v => lookupPath(v, name.slice(prefix.length)));
+    };
+  },
+};
@@ -0,0 +1,220 @@
+/**
+ * Hjson schema validation
+ * Validates parsed Hjson against a subset of JSON Schema and maps every
+ * violation back to its position in the source text
+ */
+
+import { ParseOptions } from './types/parse-options';
+import { SourceLocationMap } from './types/location';
+import { JsonSchemaDefinition, SchemaValidationResult, SchemaViolation } from './types/schema';
+import * as common from './hjson-common';
+import parse from './hjson-parse';
+import { HjsonNumber } from './hjson-number';
+
+/**
+ * Converts a BigInt or `HjsonNumber` from the `numbers` parse option to a number
+ * @param value - The value
+ * @returns The number, or the value itself
+ */
+function numeric(value: any): any {
+  return typeof value === 'bigint' || value instanceof HjsonNumber ? Number(value) : value;
+}
+
+/**
+ * Gets the JSON Schema type of a value
+ * @param value - The value
+ */
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'bigint' || value instanceof HjsonNumber) return 'number';
+  return typeof value;
+}
+
+/**
+ * Checks if a number is an integer
+ * @param value - The number, BigInt or `HjsonNumber`
+ */
+function isInteger(value: any): boolean {
+  return typeof value === 'bigint' || Number.isInteger(numeric(value));
+}
+
+/**
+ * Escapes a key for use in a JSON pointer
+ * @param key - The key
+ */
+function escapeKey(key: string | number): string {
+  return common.pathPointer([key]).slice(1);
+}
+
+/**
+ * Parses Hjson text and validates it against a schema
+ * @param text - The Hjson text
+ * @param schema - The JSON Schema
+ * @param opt - Parse options
+ * @returns The parsed value and every schema violation
+ */
+export default function validate(text: string, schema: JsonSchemaDefinition, opt?: ParseOptions): SchemaValidationResult {
+  const { value, locations } = parse(text, { ...opt, locations: true }) as { value: any, locations: SourceLocationMap };
+  const errors: SchemaViolation[] = [];
+  const active = new Set<string>();
+
+  /**
+   * Resolves a local $ref
+   * @param ref - The reference, e.g. `#/definitions/port`
+   */
+  function resolveRef(ref: string): JsonSchemaDefinition {
+    if (ref[0] !== '#') throw new Error("only local $ref is supported: " + ref);
+    let target: any = schema;
+    const pointer = decodeURIComponent(ref.slice(1));
+    if (pointer && pointer[0] !== '/') throw new Error("invalid $ref: " + ref);
+    for (const part of pointer ? pointer.slice(1).split('/') : []) {
+      const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+      if (target === null || typeof target !== 'object' || !(key in target)) throw new Error("$ref not found: " + ref);
+      target = target[key];
+    }
+    return target;
+  }
+
+  /**
+   * Records a violation at the location of a value
+   * @param out - The list to add to
+   * @param keyword - The failed keyword
+   * @param message - The description
+   * @param path - JSON pointer of the value
+   * @param schemaPath - JSON pointer of the keyword
+   * @param atKey - Whether to point at the key instead of the value
+   */
+  function report(out: SchemaViolation[], keyword: string, message: string, path: string, schemaPath: string, atKey?: boolean): void {
+    const loc = locations.get(path) || locations.get('')!;
+    const range = atKey && loc.key ? loc.key : loc.value;
+    out.push({
+      message, keyword, path, schemaPath,
+      line: range.start.line, column: range.start.column,
+      offset: range.start.offset, endOffset: range.end.offset
+    });
+  }
+
+  /**
+   * Checks a value against a schema
+   * @param v - The value
+   * @param s - The schema
+   * @param path - JSON pointer of the value
+   * @param sp - JSON pointer of the schema
+   * @param out - The list of violations to add to
+   */
+  function check(v: any, s: JsonSchemaDefinition, path: string, sp: string, out: SchemaViolation[]): void {
+    if (s === true) return;
+    if (s === false) return report(out, 'false', "No value is allowed here", path, sp);
+
+    if (s.$ref !== undefined) {
+      // Guard against references that loop without descending into the value
+      const id = path + ' ' + s.$ref;
+      if (active.has(id)) throw new Error("circular $ref: " + s.$ref);
+      active.add(id);
+      try { check(v, resolveRef(s.$ref), path, s.$ref, out); }
+      finally { active.delete(id); }
+    }
+
+    const type = typeOf(v);
+    if (s.type !== undefined) {
+      const types = Array.isArray(s.type) ? s.type : [s.type];
+      const ok = types.some(t => t === type || t === 'integer' && isInteger(v));
+      if (!ok) return report(out, 'type', "Expected " + types.join(' or ') + " instead of " + type, path, sp + '/type');
+    }
+    if (s.enum !== undefined && !s.enum.some(e => common.deepEqual(e, numeric(v))))
+      report(out, 'enum', "Expected one of " + s.enum.map(e => JSON.stringify(e)).join(', '), path, sp + '/enum');
+    if (s.const !== undefined && !common.deepEqual(s.const, numeric(v)))
+      report(out, 'const', "Expected " + JSON.stringify(s.const), path, sp + '/const');
+
+    if (type === 'number') {
+      // BigInt compares exactly with numbers, an HjsonNumber compares by its value
+      if (s.minimum !== undefined && v < s.minimum)
+        report(out, 'minimum', "Expected a number >= " + s.minimum, path, sp + '/minimum');
+      if (s.maximum !== undefined && v > s.maximum)
+        report(out, 'maximum', "Expected a number <= " + s.maximum, path, sp + '/maximum');
+      if (s.exclusiveMinimum !== undefined && v <= s.exclusiveMinimum)
+        report(out, 'exclusiveMinimum', "Expected a number > " + s.exclusiveMinimum, path, sp + '/exclusiveMinimum');
+      if (s.exclusiveMaximum !== undefined && v >= s.exclusiveMaximum)
+        report(out, 'exclusiveMaximum', "Expected a number < " + s.exclusiveMaximum, path, sp + '/exclusiveMaximum');
+    }
+
+    if (type === 'string') {
+      const length = [...v].length;
+      if (s.minLength !== undefined && length < s.minLength)
+        report(out, 'minLength', "Expected at least " + s.minLength + " characters", path, sp + '/minLength');
+      if (s.maxLength !== undefined && length > s.maxLength)
+        report(out, 'maxLength', "Expected at most " + s.maxLength + " characters", path, sp + '/maxLength');
+      if (s.pattern !== undefined && !new RegExp(s.pattern, 'u').test(v))
+        report(out, 'pattern', "Expected a string matching /" + s.pattern + "/", path, sp + '/pattern');
+    }
+
+    if (type === 'array') {
+      if (s.minItems !== undefined && v.length < s.minItems)
+        report(out, 'minItems', "Expected at least " + s.minItems + " items", path, sp + '/minItems');
+      if (s.maxItems !== undefined && v.length > s.maxItems)
+        report(out, 'maxItems', "Expected at most " + s.maxItems + " items", path, sp + '/maxItems');
+      if (s.items !== undefined)
+        v.forEach((item: any, i: number) => check(item, s.items!, path + '/' + i, sp + '/items', out));
+    }
+
+    if (type === 'object') {
+      const keys = Object.keys(v);
+      if (s.minProperties !== undefined && keys.length < s.minProperties)
+        report(out, 'minProperties', "Expected at least " + s.minProperties + " properties", path, sp + '/minProperties');
+      if (s.maxProperties !== undefined && keys.length > s.maxProperties)
+        report(out, 'maxProperties', "Expected at most " + s.maxProperties + " properties", path, sp + '/maxProperties');
+      for (const key of s.required || []) {
+        if (!Object.prototype.hasOwnProperty.call(v, key))
+          report(out, 'required', "Missing required property '" + key + "'", path, sp + '/required');
+      }
+      for (const key of keys) {
+        const p = path + '/' + escapeKey(key);
+        if (s.properties && Object.prototype.hasOwnProperty.call(s.properties, key)) {
+          check(v[key], s.properties[key], p, sp + '/properties/' + escapeKey(key), out);
+        } else if (s.additionalProperties === false) {
+          report(out, 'additionalProperties', "Property '" + key + "' is not allowed", p, sp + '/additionalProperties', true);
+        } else if (s.additionalProperties !== undefined) {
+          check(v[key], s.additionalProperties, p, sp + '/additionalProperties', out);
+        }
+      }
+    }
+
+    (s.allOf || []).forEach((sub, i) => check(v, sub, path, sp + '/allOf/' + i, out));
+
+    if (s.anyOf !== undefined) {
+      const results = s.anyOf.map((sub, i) => matches(v, sub, path, sp + '/anyOf/' + i));
+      if (!results.some(r => r.length === 0)) {
+        // A single alternative is reported in detail, several only as a whole
+        if (results.length === 1) out.push(...results[0]);
+        else report(out, 'anyOf', "Expected a value matching at least one schema in anyOf", path, sp + '/anyOf');
+      }
+    }
+
+    if (s.oneOf !== undefined) {
+      const results = s.oneOf.map((sub, i) => matches(v, sub, path, sp + '/oneOf/' + i));
+      const count = results.filter(r => r.length === 0).length;
+      if (count === 0 && results.length === 1) out.push(...results[0]);
+      else if (count !== 1)
+        report(out, 'oneOf', "Expected a value matching exactly one schema in oneOf, matched " + count, path, sp + '/oneOf');
+    }
+  }
+
+  /**
+   * Checks a value against a schema without reporting
+   * @param v - The value
+   * @param s - The schema
+   * @param path - JSON pointer of the value
+   * @param sp - JSON pointer of the schema
+   * @returns The violations found
+   */
+  function matches(v: any, s: JsonSchemaDefinition, path: string, sp: string): SchemaViolation[] {
+    const out: SchemaViolation[] = [];
+    check(v, s, path, sp, out);
+    return out;
+  }
+
+  check(value, schema, '', '#', errors);
+  errors.sort((a, b) => a.offset - b.offset);
+  return { value, errors };
+}
@@ -0,0 +1,534 @@
+/**
+ * Hjson streaming parser
+ * Parses Hjson text arriving in chunks and emits SAX-style events instead of
+ * building the value
+ */
+
+import { ParseOptions } from './types/parse-options';
+import { SourcePosition, SourceRange } from './types/location';
+import { StreamHandler, StreamParser } from './types/stream';
+import { HjsonErrorCode } from './types/errors';
+import { HjsonSyntaxError } from './hjson-error';
+import * as common from './hjson-common';
+import { loadDsf, dsf } from './hjson-dsf';
+import { convertNumber } from './hjson-number';
+
+/** Thrown when a token continues past the text received so far */
+const needMore = new Error("need more input");
+
+/**
+ * What the parser expects next
+ * - 'root': the root value, or the first key of a braceless root object
+ * - 'key': a key or the end of the object
+ * - 'colon': the colon after a key
+ * - 'value': the value of a member
+ * - 'element': an element or the end of the array
+ * - 'afterMember', 'afterElement': an optional comma
+ * - 'done': nothing but whitespace and comments
+ */
+type State = 'root' | 'key' | 'colon' | 'value' | 'element' | 'afterMember' | 'afterElement' | 'done';
+
+/**
+ * An open object or array
+ */
+interface Frame {
+  array: boolean;
+  braceless: boolean;
+}
+
+/**
+ * Creates a streaming parser emitting events for Hjson text written in chunks
+ * Accepts the same grammar as `parse`. Of the parse options only `dsf`,
+ * `legacyRoot`, `numbers` and `nativeTypes` apply, since no value is built.
+ * A braceless root is recognised from its first key, as events cannot be taken
+ * back: a root starting like a key but not a valid object, such as `a: {` or
+ * `x: ]`, is an error here, where `parse` falls back to reading it as a string.
+ * @param handler - The callbacks receiving the events
+ * @param opt - Parse options
+ * @returns The parser
+ */
+export function createStreamParser(handler: StreamHandler, opt?: ParseOptions): StreamParser {
+  const legacyRoot = opt?.legacyRoot ?? true;
+  const numbers = opt?.numbers ?? (opt?.nativeTypes ? 'auto' : 'number');
+  const runDsf = loadDsf(opt?.nativeTypes ? (opt?.dsf || []).concat(dsf.binary) : opt?.dsf, 'parse');
+
+  // Character escape mappings
+  const escapee: Record<string, string> = {
+    '"': '"',
+    '\'': '\'',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t'
+  };
+
+  let buf = ''; // Text received and not consumed yet
+  let pos = 0; // Index of the current character in buf
+  let base = 0; // Offset of buf[0] in the whole text
+  let mark: SourcePosition = { line: 1, column: 1, offset: 0 }; // Position of the last complete token's end
+  let ended = false;
+  let failure: unknown;
+  // A token waiting for input cannot end before a match of this, undefined if any character may end it
+  let until: RegExp | undefined;
+  let carry = ''; // The last characters before the new input, for a match of `until` split across writes
+  let state: State = 'root';
+  const stack: Frame[] = [];
+
+  /**
+   * Gets a character ahead of the current one
+   * Throws `needMore` if it has not been received yet.
+   * @param i - Distance from the current character
+   * @returns The character, or '' at the end of the text
+   */
+  function ch(i: number = 0): string {
+    if (pos + i < buf.length) return buf[pos + i];
+    if (ended) return '';
+    throw needMore;
+  }
+
+  /**
+   * Gets the line and column of an offset not before the last complete token
+   * @param offset - Zero-based offset in the whole text
+   */
+  function position(offset: number): SourcePosition {
+    let { line, column } = mark;
+    for (let i = mark.offset - base; i < offset - base; i++) {
+      if (buf[i] === '\n') { line++; column = 1; }
+      else column++;
+    }
+    return { line, column, offset };
+  }
+
+  /**
+   * Gets the range between two offsets
+   * @param start - Zero-based start offset
+   * @param end - Zero-based end offset, exclusive
+   */
+  function range(start: number, end: number): SourceRange {
+    return { start: position(start), end: position(end) };
+  }
+
+  /**
+   * Throws a syntax error
+   * @param m - The error message
+   * @param code - The error code
+   * @param offset - Offset of the error, defaults to the current character
+   */
+  function error(m: string, code: HjsonErrorCode, offset: number = base + pos): never {
+    const p = position(offset);
+    const lineStart = Math.max(offset - p.column + 1 - base, 0);
+    const end = Math.max(offset, Math.min(offset + 1, base + buf.length));
+    throw new HjsonSyntaxError(
+      m + " at line " + p.line + "," + p.column + " >>> " + buf.substr(lineStart, 20) + " ...",
+      code, p.line, p.column, offset, end
+    );
+  }
+
+  /**
+   * Determines if a character is a punctuator
+   * @param c - The character to check
+   */
+  function isPunctuatorChar(c: string): boolean {
+    return c === '{' || c === '}' || c === '[' || c === ']' || c === ',' || c === ':';
+  }
+
+  /**
+   * Skips whitespace or one comment
+   * @returns True if anything was skipped
+   */
+  function white(): boolean {
+    const start = pos;
+    while (pos < buf.length && buf[pos] <= ' ') pos++;
+    if (pos > start) return true;
+
+    let i: number;
+    if (ch() === '#' || ch() === '/' && ch(1) === '/') {
+      until = /\n/;
+      for (i = 0; ch(i) && ch(i) !== '\n'; i++);
+      if (buf[pos + i - 1] === '\r') i--;
+    } else if (ch() === '/' && ch(1) === '*') {
+      until = /\*\//;
+      for (i = 2; ch(i) && !(ch(i) === '*' && ch(i+1) === '/'); i++);
+      if (ch(i)) i += 2;
+    } else return false;
+
+    const text = buf.substr(pos, i);
+    const r = range(base + pos, base + pos + i);
+    pos += i;
+    handler.comment?.(text, r);
+    return true;
+  }
+
+  /**
+   * Parses a quoted string
+   * @param allowML - Whether to allow multiline strings
+   */
+  function string(allowML: boolean): string {
+    let res = '';
+    const quoteAt = base + pos;
+    const exitCh = ch();
+    until = exitCh === '"' ? /["\r\n]/ : /['\r\n]/;
+    pos++;
+    for (let c = ch(); c; c = ch()) {
+      if (c === exitCh) {
+        pos++;
+        until = undefined;
+        if (allowML && exitCh === "'" && ch() === "'" && res.length === 0) {
+          // Triple quote indicates a multiline string
+          pos++;
+          return mlString(position(quoteAt).column - 1);
+        }
+        return res;
+      }
+      if (c === '\\') {
+        pos++;
+        c = ch();
+        if (c === 'u') {
+          let uffff = 0;
+          for (let i = 0; i < 4; i++) {
+            pos++;
+            const h = ch();
+            let hex: number;
+            if (h >= '0' && h <= '9') hex = h.charCodeAt(0) - 48;
+            else if (h >= 'a' && h <= 'f') hex = h.charCodeAt(0) - 97 + 0xa;
+            else if (h >= 'A' && h <= 'F') hex = h.charCodeAt(0) - 65 + 0xa;
+            else error("Bad \\u char " + h, HjsonErrorCode.BadUnicodeEscape);
+            uffff = uffff * 16 + hex;
+          }
+          res += String.fromCharCode(uffff);
+        } else if (typeof escapee[c] === 'string') {
+          res += escapee[c];
+        } else error("Bad string", HjsonErrorCode.BadEscape);
+      } else if (c === '\n' || c === '\r') {
+        error("Bad string containing newline", HjsonErrorCode.StringNewline);
+      } else {
+        res += c;
+      }
+      pos++;
+    }
+    error("Bad string", HjsonErrorCode.UnterminatedString);
+  }
+
+  /**
+   * Parses the rest of a multiline string after its opening quotes
+   * @param indent - Column of the opening quotes, stripped from every line
+   */
+  function mlString(indent: number): string {
+    let res = '', triple = 0;
+    until = /'''/;
+
+    // Helper to skip indentation
+    function skipIndent() {
+      let skip = indent;
+      while (ch() && ch() <= ' ' && ch() !== '\n' && skip-- > 0) pos++;
+    }
+
+    // Skip whitespace to newline
+    while (ch() && ch() <= ' ' && ch() !== '\n') pos++;
+    if (ch() === '\n') { pos++; skipIndent(); }
+
+    for (;;) {
+      const c = ch();
+      if (!c) {
+        error("Bad multiline string", HjsonErrorCode.UnterminatedMultilineString);
+      } else if (c === '\'') {
+        triple++;
+        pos++;
+        if (triple === 3) {
+          if (res.slice(-1) === '\n') res = res.slice(0, -1); // Remove last EOL
+          return res;
+        } else continue;
+      } else {
+        while (triple > 0) {
+          res += '\'';
+          triple--;
+        }
+      }
+      if (c === '\n') {
+        res += '\n';
+        pos++;
+        skipIndent();
+      } else {
+        if (c !== '\r') res += c;
+        pos++;
+      }
+    }
+  }
+
+  /**
+   * Parses true, false, null, number or quoteless string
+   * @returns The value and the offset just past its last non-blank character
+   */
+  function quoteless(): [any, number] {
+    const first = ch();
+    if (isPunctuatorChar(first))
+      error("Found a punctuator character '" + first + "' when expecting a quoteless string (check your syntax)", HjsonErrorCode.UnexpectedPunctuator);
+    if (!first) return ['', base + pos];
+
+    let str = first;
+    until = /[\r\n,}\]#/]/;
+    for (;;) {
+      pos++;
+      const c = ch();
+      const isEol = c === '\r' || c === '\n' || c === '';
+      if (isEol ||
+        c === ',' || c === '}' || c === ']' ||
+        c === '#' ||
+        c === '/' && (ch(1) === '/' || ch(1) === '*')
+        ) {
+        // Check for true, false, null, or number values
+        const trimmed = str.trim();
+        const end = base + pos - (str.length - str.trimEnd().length);
+        switch (str[0]) {
+          case 'f': if (trimmed === "false") return [false, end]; break;
+          case 'n': if (trimmed === "null") return [null, end]; break;
+          case 't': if (trimmed === "true") return [true, end]; break;
+          default:
+            if (str[0] === '-' || str[0] >= '0' && str[0] <= '9') {
+              const n = common.tryParseNumber(str);
+              if (n !== undefined) return [convertNumber(trimmed, n, numbers), end];
+            }
+        }
+        if (isEol) {
+          // Remove whitespace at the end (ignored in quoteless strings)
+          const dsfValue = runDsf(trimmed);
+          return [dsfValue !== undefined ? dsfValue : trimmed, end];
+        }
+      }
+      str += c;
+    }
+  }
+
+  /**
+   * Parses an object key name
+   * @returns The name and the offset just past it
+   */
+  function keyname(): [string, number] {
+    // Quotes for keys are optional in Hjson
+    // unless they include {}[],: or whitespace
+    if (ch() === '"' || ch() === "'") {
+      const name = string(false);
+      return [name, base + pos];
+    }
+
+    const start = base + pos;
+    let name = "", space = -1, end = start;
+    until = /[:,{}[\]]/;
+    for (;;) {
+      const c = ch();
+      if (c === ':') {
+        if (!name) error("Found ':' but no key name (for an empty key name use quotes)", HjsonErrorCode.EmptyKey);
+        else if (space >= 0 && space !== name.length)
+          error("Found whitespace in your key name (use quotes to include)", HjsonErrorCode.KeyWhitespace, start + space);
+        return [name, end];
+      } else if (c <= ' ') {
+        if (!c) error("Found EOF while looking for a key name (check your syntax)", HjsonErrorCode.KeyEndOfInput);
+        else if (space < 0) space = name.length;
+      } else if (isPunctuatorChar(c)) {
+        error("Found '" + c + "' where a key name was expected (check your syntax or use quotes if the key name includes {}[],: or whitespace)", HjsonErrorCode.KeyPunctuator);
+      } else {
+        name += c;
+        end = base + pos + 1;
+      }
+      pos++;
+    }
+  }
+
+  /**
+   * Checks if the root starts with a key and a colon, making it a braceless object
+   * A root that does not is parsed as a single value.
+   */
+  function keyAhead(): boolean {
+    let i = 0;
+    const quote = ch();
+    if (quote === '"' || quote === "'") {
+      if (quote === "'" && ch(1) === "'" && ch(2) === "'") return false;
+      until = quote === '"' ? /["\r\n]/ : /['\r\n]/;
+      for (i = 1; ch(i) !== quote; i++) {
+        const c = ch(i);
+        if (!c || c === '\n' || c === '\r') return false;
+        if (c === '\\') i++;
+      }
+      // Skip whitespace and comments up to the colon
+      until = /\S/;
+      for (i++;;) {
+        const c = ch(i);
+        if (c && c <= ' ') i++;
+        else if (c === '#' || c === '/' && ch(i+1) === '/') while (ch(i) && ch(i) !== '\n') i++;
+        else if (c === '/' && ch(i+1) === '*') {
+          for (i += 2; ch(i) && !(ch(i) === '*' && ch(i+1) === '/'); i++);
+          if (ch(i)) i += 2;
+        } else return c === ':';
+      }
+    }
+
+    let name = 0, space = -1;
+    until = /[:,{}[\]]/;
+    for (;; i++) {
+      const c = ch(i);
+      if (c === ':') return name > 0 && (space < 0 || space === name);
+      if (!c || isPunctuatorChar(c)) return false;
+      if (c <= ' ') { if (space < 0) space = name; }
+      else name++;
+    }
+  }
+
+  /**
+   * Moves on after a complete value
+   */
+  function afterValue(): void {
+    const frame = stack[stack.length - 1];
+    state = !frame ? 'done' : frame.array ? 'afterElement' : 'afterMember';
+  }
+
+  /**
+   * Opens an object or array
+   * @param array - Whether to open an array
+   * @param braceless - Whether the object is a root without braces
+   */
+  function open(array: boolean, braceless: boolean): void {
+    const r = range(base + pos, base + pos + (braceless ? 0 : 1));
+    if (!braceless) pos++;
+    stack.push({ array, braceless });
+    state = array ? 'element' : 'key';
+    if (array) handler.startArray?.(r);
+    else handler.startObject?.(r);
+  }
+
+  /**
+   * Closes the innermost object or array
+   */
+  function close(): void {
+    const frame = stack.pop()!;
+    const r = range(base + pos, base + pos + (frame.braceless ? 0 : 1));
+    if (!frame.braceless) pos++;
+    afterValue();
+    if (frame.array) handler.endArray?.(r);
+    else handler.endObject?.(r);
+  }
+
+  /**
+   * Parses a value, or opens an object or array
+   */
+  function value(): void {
+    const c = ch();
+    if (c === '{' || c === '[') return open(c === '[', false);
+
+    const start = base + pos;
+    let v: any, end: number;
+    if (c === '"' || c === "'") {
+      v = string(true);
+      end = base + pos;
+    } else [v, end] = quoteless();
+    afterValue();
+    handler.value?.(v, range(start, end));
+  }
+
+  /**
+   * Parses the next token
+   * @returns False when the document is complete
+   */
+  function step(): boolean {
+    until = undefined;
+    if (white()) return true;
+    const c = ch();
+    const frame = stack[stack.length - 1];
+
+    switch (state) {
+      case 'done':
+        if (c) error("Syntax error, found trailing characters", HjsonErrorCode.TrailingCharacters);
+        return false;
+      case 'root':
+        if (c === '{' || c === '[' || !legacyRoot) value();
+        else if (!c || keyAhead()) {
+          // Assume we have a root object without braces
+          open(false, true);
+        } else value();
+        return true;
+      case 'afterMember':
+      case 'afterElement':
+        // In Hjson the comma is optional and trailing commas are allowed
+        if (c === ',') pos++;
+        state = frame.array ? 'element' : 'key';
+        return true;
+      case 'element':
+        if (c === ']') close();
+        else if (!c) error("End of input while parsing an array (missing ']')", HjsonErrorCode.UnterminatedArray);
+        else value();
+        return true;
+      case 'key':
+        if (!c && !frame.braceless) error("End of input while parsing an object (missing '}')", HjsonErrorCode.UnterminatedObject);
+        if (!c || c === '}' && !frame.braceless) close();
+        else {
+          const start = base + pos;
+          const [name, end] = keyname();
+          state = 'colon';
+          handler.key?.(name, range(start, end));
+        }
+        return true;
+      case 'colon':
+        if (c !== ':') error("Expected ':' instead of '" + c + "'", HjsonErrorCode.MissingColon);
+        pos++;
+        state = 'value';
+        return true;
+      case 'value':
+        value();
+        return true;
+    }
+  }
+
+  /**
+   * Parses as many complete tokens as possible
+   */
+  function run(): void {
+    for (;;) {
+      const start = pos;
+      let more: boolean;
+      try {
+        more = step();
+      } catch (e) {
+        if (e !== needMore) {
+          failure = e;
+          throw e;
+        }
+        // Wait for the rest of the token
+        pos = start;
+        carry = buf.slice(-2);
+        break;
+      }
+      mark = position(base + pos);
+      if (!more) {
+        until = undefined;
+        break;
+      }
+    }
+    // Drop the text of complete tokens, keeping the current line for error messages
+    const drop = pos - Math.min(mark.column - 1, 1024);
+    buf = buf.slice(drop);
+    base += drop;
+    pos -= drop;
+  }
+
+  return {
+    write(chunk: string): void {
+      if (failure) throw failure;
+      if (ended) throw new Error("write after end");
+      buf += chunk;
+      // Scanning the token again only pays off once the new input can end it
+      const text = carry + chunk;
+      carry = text.slice(-2);
+      if (until && !until.test(text)) return;
+      run();
+    },
+
+    end(): void {
+      if (failure) throw failure;
+      if (ended) return;
+      ended = true;
+      run();
+    }
+  };
+}
@@ -6,7 +6,20 @@
 import { StringifyOptions } from './types/stringify-options';
 import { Token, TokenEntry } from './types/token';
 import * as common from './hjson-common';
-import { loadDsf } from './hjson-dsf';
+import { loadDsf, dsf } from './hjson-dsf';
+import { fromNative } from './hjson-native';
+import { HjsonNumber } from './hjson-number';
+import reprint from './hjson-reprint';
+import { splitAfter } from './hjson-comments';
+import { toHjson, SerializeContext } from './types/serializer';
+import { HjsonCircularError } from './hjson-error';
+
+/**
+ * Text returned by `SerializeContext.raw`, written as is
+ */
+class RawText {
+  constructor(readonly text: string) {}
+}
 
 /**
  * Stringifies a JavaScript value to Hjson format
@@ -15,6 +28,24 @@ import { loadDsf } from './hjson-dsf';
  * @returns The Hjson string representation
  */
 export default function stringify(value: any, opt?: StringifyOptions): string {
+  let result = "";
+  for (const chunk of stringifyChunks(value, opt)) result += chunk;
+  return result;
+}
+
+/**
+ * Stringifies a JavaScript value to Hjson format in chunks
+ * The value is only visited as far as the chunks are read.
+ * @param value - The value to stringify
+ * @param opt - Optional configuration for the stringification process
+ * @returns The chunks of the Hjson string representation
+ */
+export function* stringifyChunks(value: any, opt?: StringifyOptions): Generator<string, void> {
+  if (opt?.source !== undefined && !opt.replacer) {
+    yield reprint(opt.source, value, opt);
+    return;
+  }
+
   const plainToken: Token = {
     obj: [ '{', '}' ],
     arr: [ '[', ']' ],
@@ -105,9 +136,9 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
     : (opt?.space ?? '  ');
   const keepComments = opt?.keepWhitespaceAndComments ?? false;
   const bracesSameLine = opt?.bracesSameLine ?? false;
+  const emitRootBraces = opt?.emitRootBraces ?? true;
   const quoteKeys = opt?.quotes === 'all' || opt?.quotes === 'keys';
   const quoteStrings = opt?.quotes === 'all' || opt?.quotes === 'strings' || opt?.separator === true;
-  const condense = opt?.condense ?? 0;
   let multiline = quoteStrings ? 0 :
                  opt?.multiline === 'std' || opt?.multiline === undefined ? 1 : 
                  opt?.multiline === 'no-tabs' ? 2 : 
@@ -125,7 +156,17 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
   const separator = opt?.separator === true ? ',' : '';
   const sortProps = opt?.sortProps ?? false;
 
-  const runDsf = loadDsf(opt?.dsf, 'stringify');
+  const nativeTypes = opt?.nativeTypes ?? false;
+  const runDsf = loadDsf(nativeTypes ? (opt?.dsf || []).concat(dsf.binary) : opt?.dsf, 'stringify');
+  const replacer = typeof opt?.replacer === 'function' ? opt.replacer : undefined;
+  const allowed = Array.isArray(opt?.replacer) ? new Set(opt.replacer.map(String)) : undefined;
+  const path: (string | number)[] = [];
+  const serializers = opt?.serializers;
+  const circular = opt?.circular ?? 'error';
+  const stack: any[] = []; // The objects and arrays containing the current value, by depth
+  const written = opt?.references ? new Map<any, string>() : undefined; // Pointer of each object and array written
+  // Condensing visits values twice, a replacer function must only see each once
+  const condense = replacer ? 0 : opt?.condense ?? 0;
 
 
   /**
@@ -194,15 +235,17 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
         hasComment || 
         separator || 
         needsQuotes.test(value) ||
+        // Would be read back as bytes
+        nativeTypes && dsf.binary.parse(value) !== undefined ||
         common.tryParseNumber(value, true) !== undefined ||
         startsWithKeyword.test(value)) {
       
       needsEscape.lastIndex = 0;
       needsEscapeML.lastIndex = 0;
-      if (!needsEscapeML.test(value) && !isRootObject && multiline) {
-        return mlString(value, level);
-      } else if (!needsEscape.test(value)) {
+      if (!needsEscape.test(value)) {
         return wrap(token.qstr, value);
+      } else if (!needsEscapeML.test(value) && !isRootObject && multiline) {
+        return mlString(value, level);
       } else {
         return wrap(token.qstr, quoteReplace(value));
       }
@@ -272,24 +315,165 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
     else return wrap(token.key, key);
   }
 
+  /**
+   * Applies the replacer to a value
+   * @param holder - The object or array holding the value
+   * @param key - The key or index of the value
+   * @param value - The value
+   * @returns The replaced value, undefined to omit it
+   */
+  function replace(holder: any, key: string | number, value: any): any {
+    if (replacer) return replacer.call(holder, String(key), value, path.slice());
+    if (allowed && path.length > 0 && !Array.isArray(holder) && !allowed.has(String(key))) return undefined;
+    return value;
+  }
+
+  /**
+   * Applies the serializer, `toHjson` or `toJSON` hook of an object
+   * @param holder - The object or array holding the value
+   * @param key - The key or index of the value
+   * @param value - The value
+   * @returns The value to stringify instead
+   */
+  function serialize(holder: any, key: string | number, value: any): any {
+    if (value === null || typeof value !== 'object' && typeof value !== 'function' || value instanceof HjsonNumber) return value;
+
+    const context = (): SerializeContext => ({ key: String(key), path: path.slice(), holder, raw: (text: string) => new RawText(text) });
+    if (serializers) {
+      // Instances of subclasses use the serializer of the closest registered class
+      for (let proto = Object.getPrototypeOf(value); proto; proto = Object.getPrototypeOf(proto)) {
+        const serializer = common.getOwn(proto, 'constructor') && serializers.get(proto.constructor);
+        if (serializer) return serializer(value, context());
+      }
+    }
+    if (typeof value[toHjson] === 'function') return value[toHjson](context());
+    // DSF modules take precedence, e.g. the date DSF formats Date objects itself
+    if (typeof value.toJSON === 'function' && runDsf(value) === undefined) return value.toJSON(String(key));
+    return value;
+  }
+
+  /**
+   * Gets the replacement for an object that contains itself
+   * @param target - Path of the first occurrence of the object
+   * @returns The placeholder or `$ref` object
+   */
+  function circularValue(target: (string | number)[]): any {
+    if (circular === 'placeholder') return opt?.circularPlaceholder !== undefined ? opt.circularPlaceholder : '[Circular]';
+    if (circular === 'ref') return { $ref: '#' + common.pathPointer(target) };
+    throw new HjsonCircularError(path.slice(), target);
+  }
+
+  /**
+   * Visits a member or element and outputs the Hjson string
+   * @param holder - The object or array holding the value
+   * @param key - The key or index of the value
+   * @param separator - The separator string
+   * @param level - The current indentation level
+   * @param hasComment - Whether this value is followed by a comment on the same line
+   * @param lexeme - The original spelling of a number
+   * @returns The chunks of the stringified value, none if the replacer omitted it
+   */
+  function* visitMember(holder: any, key: string | number, separator: string, level: number, hasComment?: boolean, lexeme?: string): Generator<string, void> {
+    path.push(key);
+    try { yield* visit(holder[key], separator, level, false, hasComment, holder, key, lexeme); }
+    finally { path.pop(); }
+  }
+
+  /**
+   * Gets the first chunk of a value, leaving the rest to be read from the generator
+   * The first chunk of an object or array contains its opening line.
+   * @param chunks - The chunks of the value
+   * @returns The first chunk, undefined if the value was omitted
+   */
+  function firstChunk(chunks: Generator<string, void>): string | undefined {
+    const next = chunks.next();
+    return next.done ? undefined : next.value;
+  }
+
+  /**
+   * Joins the chunks of a value
+   * @param chunks - The chunks of the value
+   * @returns The stringified value, undefined if the value was omitted
+   */
+  function text(chunks: Generator<string, void>): string | undefined {
+    let res: string | undefined;
+    for (const chunk of chunks) res = (res ?? '') + chunk;
+    return res;
+  }
+
   /**
    * Visits a value and outputs the Hjson string
+   * Objects and arrays are output in chunks, so the text never has to be held at once.
    * @param value - The value to stringify
    * @param separator - The separator string
    * @param level - The current indentation level
    * @param rootObject - Whether this is the root object
-   * @param hasComment - Whether this value has comments
-   * @returns The stringified value
+   * @param hasComment - Whether this value is followed by a comment on the same line
+   * @param holder - The object or array holding the value
+   * @param key - The key or index of the value
+   * @param lexeme - The original spelling of a number, used while the value is unchanged
+   * @returns The chunks of the stringified value, none if the replacer omitted it
    */
-  function visit(value: any, separator: string, level: number, rootObject?: boolean, hasComment?: boolean): string {
+  function* visit(value: any, separator: string, level: number, rootObject?: boolean, hasComment?: boolean, holder?: any, key: string | number = '', lexeme?: string): Generator<string, void> {
+    holder = holder ?? { '': value };
+    const serialized = serialize(holder, key, value);
+    if (serialized === undefined && value !== undefined) return;
+    value = serialized;
+    if (replacer || allowed) {
+      value = replace(holder, key, value);
+      if (value === undefined) return;
+    }
+    if (value instanceof RawText) {
+      if (!value.text || /[\r\n]/.test(value.text)) throw new Error("raw text must be a single non-empty line: " + JSON.stringify(value.text));
+      yield wrap(token.lit, value.text);
+      return;
+    }
+
     // Process a value with domain specific formatting
     const dsfValue = runDsf(value);
-    if (dsfValue !== undefined) return dsfValue;
+    if (dsfValue !== undefined) {
+      yield dsfValue;
+      return;
+    }
+
+    if (value instanceof HjsonNumber) {
+      yield wrap(token.num, value.lexeme);
+      return;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      stack.length = path.length;
+      const depth = stack.indexOf(value);
+      if (depth >= 0) value = circularValue(path.slice(0, depth));
+      else if (written) {
+        // Condensing visits a value twice at the same path
+        const first = written.get(value), here = common.pathPointer(path);
+        if (first === undefined) written.set(value, here);
+        else if (first !== here) value = { $ref: '#' + first };
+      }
+      stack.push(value);
+      if (nativeTypes) value = fromNative(value);
+    }
 
     // Check for comments
     const commentInfo = keepComments ? common.getComment(value) : undefined;
 
-    // Handle different value types
+    if (Array.isArray(value)) yield* visitArray(value, commentInfo, separator, level, hasComment);
+    else if (value !== null && typeof value === 'object') yield* visitObject(value, commentInfo, separator, level, rootObject, hasComment);
+    else yield primitive(value, separator, level, rootObject, hasComment, lexeme);
+  }
+
+  /**
+   * Outputs a value that is neither an object nor an array
+   * @param value - The value to stringify
+   * @param separator - The separator string
+   * @param level - The current indentation level
+   * @param rootObject - Whether this is the root object
+   * @param hasComment - Whether this value is followed by a comment on the same line
+   * @param lexeme - The original spelling of a number, used while the value is unchanged
+   * @returns The stringified value
+   */
+  function primitive(value: any, separator: string, level: number, rootObject?: boolean, hasComment?: boolean, lexeme?: string): string {
     if (value === null) return wrap(token.lit, 'null');
 
     if (typeof value === 'boolean')
@@ -306,125 +490,155 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
           // For multiline strings, return a special marker that will be replaced with proper formatting
           return "\n" + mlString(value, level);
         }
-        return quotelessString(value, separator, level, rootObject);
+        return quotelessString(value, separator, level, rootObject, hasComment);
       }
     }
+    if (typeof value === 'bigint') return wrap(token.num, value.toString());
+
     if (typeof value === 'number') {
+      if (lexeme !== undefined && Object.is(common.tryParseNumber(lexeme), value)) return wrap(token.num, lexeme);
       // Ensure the number can be represented in JSON
       if (isFinite(value)) return wrap(token.num, String(value));
       else return wrap(token.lit, 'null');
     }
-    if (typeof value === 'object') {
-      // Array
-      if (Array.isArray(value)) {
-        if (value.length === 0) return '[]';
-
-        let WhitespaceAndComments = commentInfo;
-
-        let result = '';
-
-        // Format the array
-        if (condense > 0 && !WhitespaceAndComments && !hasComment) {
-          // Try to condense the array onto one line
-          let res2 = '[ ';
-          for (let i = 0; i < value.length; i++) {
-            if (i > 0) res2 += token.com[0] + ' ';
-            res2 += visit(value[i], separator, 0, false, false);
-          }
-          res2 += ' ]';
-          if (res2.length <= condense) return res2;
-        }
 
-        // Format the array with each element on a new line
-        let indent1 = token.arr[0];
-        let indent2 = indent.repeat(level+1);
-        let indent3 = indent.repeat(level);
-        let separator2 = separator;
-        result += indent1 + eol;
-
-        for (let i = 0; i < value.length; i++) {
-          let comment = WhitespaceAndComments ? WhitespaceAndComments.a[i] : undefined;
-          if (comment && comment.b) result += indent2 + makeComment(comment.b, "", false).replace(/\n/g, eol + indent2) + eol;
-          result += indent2 + visit(value[i], separator2, level+1, false, comment && (commentOnThisLine(comment.a) || comment.b));
-          // Only add commas between array elements, not after the last one
-          if (i < value.length-1) result += token.com[0];
-          if (comment && comment.a) result += makeComment(comment.a, commentOnThisLine(comment.a) ? " " : "", commentOnThisLine(comment.a)).replace(/\n/g, eol + indent2);
-          result += eol;
-        }
+    // For other types (like undefined, function, etc.), return null
+    return wrap(token.lit, 'null');
+  }
 
-        if (WhitespaceAndComments && WhitespaceAndComments.e) {
-          result += indent2 + WhitespaceAndComments.e[0].replace(/\n/g, eol + indent2) + eol;
-          if (WhitespaceAndComments.e[1]) result += indent2 + WhitespaceAndComments.e[1].replace(/\n/g, eol + indent2) + eol;
-        }
+  /**
+   * Outputs an array, one element at a time
+   * @param value - The array
+   * @param comments - The comments of the array
+   * @param separator - The separator string
+   * @param level - The current indentation level
+   * @param hasComment - Whether the array is followed by a comment on the same line
+   * @returns The chunks of the stringified array
+   */
+  function* visitArray(value: any[], comments: any, separator: string, level: number, hasComment?: boolean): Generator<string, void> {
+    if (value.length === 0) {
+      yield emptyContainer(token.arr, comments, level, '[]');
+      return;
+    }
 
-        result += indent3 + token.arr[1];
-        return result;
-      } else {
-        // Object
-        const keys = Object.keys(value);
-        if (keys.length === 0) return '{}';
-
-        let WhitespaceAndComments = commentInfo;
-        let showBraces = rootObject;
-        let result = '';
-
-        // Format the object
-        if (condense > 0 && !WhitespaceAndComments && !hasComment && hasSingleProp(value)) {
-          // Try to condense the object onto one line
-          let res2 = '{';
-          let key = keys[0];
-          let separator2 = separator;
-          res2 += quoteKey(key) + token.col[0] + ' ' + visit(value[key], separator2, 0, false, false);
-          res2 += '}';
-          if (res2.length <= condense) return res2;
-        }
+    if (condense > 0 && !comments && !hasComment) {
+      // Try to condense the array onto one line
+      let res2 = '[ ';
+      for (let i = 0; i < value.length; i++) {
+        if (i > 0) res2 += token.com[0] + ' ';
+        res2 += text(visitMember(value, i, separator, 0, false)) ?? wrap(token.lit, 'null');
+      }
+      res2 += ' ]';
+      if (res2.length <= condense) {
+        yield res2;
+        return;
+      }
+    }
 
-        let indent1 = showBraces ? token.obj[0] : '';
-        let indent2 = indent.repeat(level+1);
-        let indent3 = indent.repeat(level);
-        let separator2 = separator;
-        let isComment = WhitespaceAndComments && WhitespaceAndComments.c;
+    // Format the array with each element on a new line
+    const indent2 = indent.repeat(level+1);
+    yield token.arr[0] + eol;
 
+    for (let i = 0; i < value.length; i++) {
+      // Comments are stored as [before, after] pairs
+      const [before, after, lexeme] = comments?.a?.[i] || [];
+      // Only add commas between array elements, not after the last one
+      const comma = i < value.length-1;
+      // A quoteless string would take the comma as part of its value
+      const chunks = visitMember(value, i, comma ? ',' : separator, level+1, hasText(after) && commentOnThisLine(after), lexeme);
+      yield commentBlock(before, indent2) + indent2 + (firstChunk(chunks) ?? wrap(token.lit, 'null'));
+      yield* chunks;
+      yield (comma ? token.com[0] : '') + trailingComment(after, indent2);
+    }
 
-        if (showBraces) {
-          if (bracesSameLine) result += indent1 + ' ';
-          else result += indent1 + eol;
-        }
+    if (comments?.e) yield commentBlock(comments.e[0], indent2) + commentBlock(comments.e[1], indent2);
+    yield indent.repeat(level) + token.arr[1];
+  }
 
-        // Get key order
-        let keys2: string[];
-        if (WhitespaceAndComments && WhitespaceAndComments.o) keys2 = WhitespaceAndComments.o;
-        else if (sortProps) keys2 = keys.sort();
-        else keys2 = keys;
-
-        // Format each property
-        for (let i = 0; i < keys2.length; i++) {
-          let key = keys2[i];
-          if (key === '__COMMENTS') continue;
-          if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
-
-          let comment = isComment ? WhitespaceAndComments.c[key] : undefined;
-          if (comment && comment.b) result += indent2 + makeComment(comment.b, "", false).replace(/\n/g, eol + indent2) + eol;
-          const vs = visit(value[key], separator2, level+1, false, comment && (commentOnThisLine(comment.a) || comment.b));
-          result += indent2 + quoteKey(key) + token.col[0] + ' ' + vs;
-          // Only add commas when separator is explicitly set to true
-          if (separator2) result += token.com[0];
-          if (comment && comment.a) result += makeComment(comment.a, commentOnThisLine(comment.a) ? " " : "", commentOnThisLine(comment.a)).replace(/\n/g, eol + indent2);
-          result += eol;
-        }
+  /**
+   * Outputs an object, one member at a time
+   * @param value - The object
+   * @param comments - The comments of the object
+   * @param separator - The separator string
+   * @param level - The current indentation level
+   * @param rootObject - Whether this is the root object
+   * @param hasComment - Whether the object is followed by a comment on the same line
+   * @returns The chunks of the stringified object
+   */
+  function* visitObject(value: any, comments: any, separator: string, level: number, rootObject?: boolean, hasComment?: boolean): Generator<string, void> {
+    const keys = Object.keys(value);
+    if (keys.length === 0) {
+      yield emptyContainer(token.obj, comments, level, '{}');
+      return;
+    }
 
-        if (WhitespaceAndComments && WhitespaceAndComments.e) {
-          result += indent2 + WhitespaceAndComments.e[0].replace(/\n/g, eol + indent2) + eol;
-          if (WhitespaceAndComments.e[1]) result += indent2 + WhitespaceAndComments.e[1].replace(/\n/g, eol + indent2) + eol;
-        }
+    // Nested objects always need braces, the root only when requested
+    const showBraces = !rootObject || emitRootBraces;
 
-        result += indent3 + token.obj[1];
-        return result;
+    if (condense > 0 && !comments && !hasComment && hasSingleProp(value)) {
+      // Try to condense the object onto one line
+      const key = keys[0];
+      const vs = text(visitMember(value, key, separator, 0, false));
+      if (vs === undefined) {
+        yield '{}';
+        return;
+      }
+      const res2 = '{' + quoteKey(key) + token.col[0] + ' ' + vs + '}';
+      if (res2.length <= condense) {
+        yield res2;
+        return;
       }
     }
 
-    // For other types (like undefined, function, etc.), return null
-    return wrap(token.lit, 'null');
+    const level2 = showBraces ? level+1 : level;
+    const indent2 = indent.repeat(level2);
+    const memberComments = comments && comments.c;
+    const header = showBraces ? token.obj[0] + eol : '';
+    // Held back until a member is output, the replacer may omit every member
+    let pending = header;
+    let empty = true;
+
+    // Get key order
+    let keys2: string[];
+    if (comments && comments.o) keys2 = comments.o;
+    else if (sortProps) keys2 = keys.sort();
+    else keys2 = keys;
+
+    // Format each property
+    for (let i = 0; i < keys2.length; i++) {
+      const key = keys2[i];
+      if (key === '__COMMENTS') continue;
+      if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+
+      // Comments are stored as [before, after] pairs
+      const [before, after, lexeme] = (memberComments && common.getOwn(comments.c, key)) || [];
+      const chunks = visitMember(value, key, separator, level2, hasText(after) && commentOnThisLine(after), lexeme);
+      const vs = firstChunk(chunks);
+      if (vs === undefined) {
+        // Omitted members lose their comments, except those before the closing brace
+        pending += commentBlock(splitAfter(after)[1].slice(1), indent2);
+        continue;
+      }
+      let res = pending + commentBlock(before, indent2) + indent2 + quoteKey(key) + token.col[0];
+      // Opening braces of multi-line objects go on their own line unless bracesSameLine
+      if (!bracesSameLine && vs.startsWith(token.obj[0]) && vs.indexOf('\n') >= 0) res += eol + indent2 + vs;
+      else res += (startsWithNL(vs) ? '' : ' ') + vs;
+      yield res;
+      yield* chunks;
+      // Only add commas when separator is explicitly set to true
+      yield (separator ? token.com[0] : '') + trailingComment(after, indent2);
+      pending = '';
+      empty = false;
+    }
+
+    // Every member was omitted by the replacer
+    if (empty && pending === header) {
+      yield emptyContainer(token.obj, comments, level, '{}');
+      return;
+    }
+
+    if (comments && comments.e) pending += commentBlock(comments.e[0], indent2) + commentBlock(comments.e[1], indent2);
+    yield pending + (showBraces ? indent.repeat(level) + token.obj[1] : '');
   }
 
   /**
@@ -475,6 +689,58 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
     return !!str && !startsWithNL(str); 
   }
 
+  /**
+   * Checks if a comment string contains anything besides whitespace
+   * @param str - The comment string
+   * @returns True if the string has text
+   */
+  function hasText(str?: string): boolean {
+    return !!str && /\S/.test(str);
+  }
+
+  /**
+   * Formats comment lines on their own lines
+   * The lines keep their relative indentation but are re-indented to the given level.
+   * @param str - The comment string, possibly spanning several lines
+   * @param ind - The indentation to use
+   * @returns The formatted lines, each followed by an EOL
+   */
+  function commentBlock(str: string | undefined, ind: string): string {
+    if (!str || !hasText(str)) return "";
+    const lines = common.forceComment(str.replace(/\r/g, '')).split('\n');
+    let strip = Infinity;
+    lines.forEach(line => { if (hasText(line)) strip = Math.min(strip, line.length - line.trimStart().length); });
+    return lines.map(line => hasText(line) ? ind + wrap(token.rem, line.slice(strip).trimEnd()) + eol : eol).join('');
+  }
+
+  /**
+   * Formats an empty object or array, keeping the comments inside it
+   * @param tk - The brace or bracket tokens
+   * @param comments - The comments of the value
+   * @param level - The current indentation level
+   * @param plain - The output without comments
+   * @returns The formatted value
+   */
+  function emptyContainer(tk: TokenEntry, comments: any, level: number, plain: string): string {
+    if (!hasText(comments?.e?.[0])) return plain;
+    return tk[0] + eol + commentBlock(comments.e[0], indent.repeat(level+1)) + indent.repeat(level) + tk[1];
+  }
+
+  /**
+   * Formats the comment following a value
+   * The first line stays on the line of the value, the rest follows on separate lines.
+   * @param str - The comment string
+   * @param ind - The indentation for following lines
+   * @returns The formatted comment including the EOL of the value's line
+   */
+  function trailingComment(str: string | undefined, ind: string): string {
+    if (!str || !hasText(str)) return eol;
+    const nl = str.indexOf('\n');
+    const first = nl < 0 ? str : str.slice(0, nl);
+    const rest = nl < 0 ? "" : str.slice(nl + 1);
+    return makeComment(first.replace(/\r/g, ''), " ", true) + eol + commentBlock(rest, ind);
+  }
+
   /**
    * Makes a comment string
    * @param str - The comment string to format
@@ -493,14 +759,13 @@ export default function stringify(value: any, opt?: StringifyOptions): string {
   }
 
   // Start the stringification process
-  let result = "";
   const comments = keepComments ? (common.getComment(value) || {}).r : undefined;
-  if (comments && comments[0]) result = comments[0] + '\n';
-
-  // Get the result of stringifying the data
-  result += visit(value, separator, 0, true);
+  if (comments && comments[0]) yield comments[0] + '\n';
 
-  if (comments) result += comments[1] || "";
+  // Output the data
+  const chunks = visit(value, separator, 0, true);
+  yield firstChunk(chunks) ?? wrap(token.lit, 'null');
+  yield* chunks;
 
-  return result;
+  if (comments) yield comments[1] || "";
 }
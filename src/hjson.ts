@@ -4,12 +4,24 @@
  * This file creates a Hjson object with parse and stringify methods.
  */
 
-import parse from './hjson-parse';
+import parse, { parseWithDiagnostics } from './hjson-parse';
 import stringify from './hjson-stringify';
+import { parseToCst, printCst } from './hjson-cst';
+import { createStreamParser } from './hjson-stream';
+import { parseAsync, stringifyStream, stringifyReadableStream } from './hjson-async';
+import { loadFile } from './hjson-load';
+import { resolvers } from './hjson-resolvers';
+import { createDocument, parseDocument } from './hjson-document';
+import validate from './hjson-schema';
+import { runCli } from './hjson-cli';
+import { format } from './hjson-format';
+import { lint, applyFixes } from './hjson-lint';
 import * as common from './hjson-common';
-import * as comments from './hjson-comments';
+import comments from './hjson-comments';
 import { dsf as dsfModules } from './hjson-dsf';
-import { ParseOptions, StringifyOptions } from './types';
+import { HjsonSyntaxError, HjsonCircularError, HjsonLoadError } from './hjson-error';
+import { HjsonNumber } from './hjson-number';
+import { ParseOptions, StringifyOptions, HjsonErrorCode, toHjson } from './types';
 
 /**
  * Gets the current end of line character sequence
@@ -66,23 +78,67 @@ const dsf = dsfModules;
 // Export the Hjson API
 export default {
   parse,
+  parseWithDiagnostics,
+  parseAsync,
+  loadFile,
+  createStreamParser,
+  parseToCst,
+  printCst,
+  parseDocument,
+  createDocument,
+  validate,
+  lint,
+  applyFixes,
   stringify,
+  format,
+  stringifyStream,
+  stringifyReadableStream,
   endOfLine,
   setEndOfLine,
   version,
   rt,
   comments,
   dsf,
+  resolvers,
+  HjsonSyntaxError,
+  HjsonCircularError,
+  HjsonLoadError,
+  HjsonNumber,
+  HjsonErrorCode,
+  toHjson,
+  runCli,
 };
 
 // Also export individual functions and objects
 export {
   parse,
+  parseWithDiagnostics,
+  parseAsync,
+  loadFile,
+  createStreamParser,
+  parseToCst,
+  printCst,
+  parseDocument,
+  createDocument,
+  validate,
+  lint,
+  applyFixes,
   stringify,
+  format,
+  stringifyStream,
+  stringifyReadableStream,
   endOfLine,
   setEndOfLine,
   version,
   rt,
   comments,
   dsf,
+  resolvers,
+  HjsonSyntaxError,
+  HjsonCircularError,
+  HjsonLoadError,
+  HjsonNumber,
+  HjsonErrorCode,
+  toHjson,
+  runCli,
 };
\ No newline at end of file
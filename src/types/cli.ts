@@ -0,0 +1,53 @@
+/**
+ * Command-line tool type definitions
+ *
+ * This module defines how the `hjson` command reads its input and writes its
+ * output, so it can run outside of Node.
+ *
+ * @module
+ */
+
+/**
+ * Input and output of the command-line tool
+ *
+ * @example
+ * ```typescript
+ * const code = await Hjson.runCli(['-j', 'config.hjson'], {
+ *   read: async (file) => fs.readFileSync(file ?? 0, 'utf8'),
+ *   stdout: (text) => process.stdout.write(text),
+ *   stderr: (text) => process.stderr.write(text),
+ * });
+ * ```
+ */
+export interface CliIo {
+  /**
+   * Reads the input
+   * @param file - The file name, undefined to read the standard input
+   */
+  read(file: string | undefined): Promise<string>;
+
+  /** Writes to the standard output */
+  stdout(text: string): void;
+
+  /** Writes to the standard error */
+  stderr(text: string): void;
+
+  /**
+   * Replaces the contents of a file, needed by `hjson fmt --write`
+   * @param file - The file name
+   * @param text - The new contents
+   */
+  write?(file: string, text: string): Promise<void>;
+
+  /**
+   * Lists a directory, needed by `hjson fmt` to expand glob patterns
+   * @param dir - The directory name
+   */
+  readDir?(dir: string): Promise<{ name: string, directory: boolean }[]>;
+
+  /**
+   * Gets the current directory, used by `hjson fmt` to look for
+   * `.hjsonfmtrc` files above it
+   */
+  cwd?(): string;
+}
@@ -32,6 +32,8 @@ export interface Comments {
    * 
    * A record mapping array indices to their associated comments.
    * Used to preserve comments that appear before or after array elements.
+   * Each entry is a [before, after] pair; numbers written differently from
+   * their canonical form (e.g. `1.50`) keep that spelling as a third item.
    */
   a?: Record<string, any>;
 
@@ -48,6 +50,8 @@ export interface Comments {
    * 
    * A record mapping property names to their associated comments.
    * Used to preserve comments that appear before or after object properties.
+   * Each entry is a [before, after] pair; numbers written differently from
+   * their canonical form (e.g. `1.50`) keep that spelling as a third item.
    */
   c?: Record<string, any>;
 
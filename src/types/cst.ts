@@ -0,0 +1,153 @@
+/**
+ * Concrete syntax tree type definitions
+ *
+ * This module defines the node types produced by `parseToCst`. Unlike the
+ * values returned by `parse`, the tree is lossless: every character of the
+ * source, including whitespace, comments and commas, belongs to exactly one
+ * leaf node, so printing the tree reproduces the input byte-for-byte.
+ *
+ * All offsets are zero-based; `end` is exclusive.
+ *
+ * @module
+ */
+
+/**
+ * Properties shared by all nodes
+ */
+export interface CstNodeBase {
+  /** Zero-based offset of the first character */
+  start: number;
+
+  /** Zero-based offset just past the last character */
+  end: number;
+}
+
+/**
+ * Whitespace, including line breaks
+ */
+export interface CstWhitespace extends CstNodeBase {
+  type: 'whitespace';
+  raw: string;
+}
+
+/**
+ * A `#`, `//` or `/* *\/` comment
+ */
+export interface CstComment extends CstNodeBase {
+  type: 'comment';
+  style: '#' | '//' | '/*';
+  raw: string;
+}
+
+/**
+ * A comma between members or elements
+ */
+export interface CstComma extends CstNodeBase {
+  type: 'comma';
+  raw: ',';
+}
+
+/**
+ * Braces, brackets and the colon between key and value
+ */
+export interface CstPunctuator extends CstNodeBase {
+  type: 'punctuator';
+  raw: '{' | '}' | '[' | ']' | ':';
+}
+
+/**
+ * An object key, quoted or quoteless
+ */
+export interface CstKey extends CstNodeBase {
+  type: 'key';
+  style: 'quoteless' | 'double' | 'single';
+  raw: string;
+  /** The key name after unescaping */
+  value: string;
+}
+
+/**
+ * A string value in any of the Hjson flavours
+ */
+export interface CstString extends CstNodeBase {
+  type: 'string';
+  /** quoteless, `"..."`, `'...'` or `'''...'''` */
+  style: 'quoteless' | 'double' | 'single' | 'multiline';
+  raw: string;
+  /** The string after unescaping and removing multiline indentation */
+  value: string;
+}
+
+/**
+ * A number value
+ */
+export interface CstNumber extends CstNodeBase {
+  type: 'number';
+  raw: string;
+  value: number;
+}
+
+/**
+ * A `true`, `false` or `null` literal
+ */
+export interface CstLiteral extends CstNodeBase {
+  type: 'literal';
+  raw: string;
+  value: boolean | null;
+}
+
+/**
+ * A key with its colon and value
+ *
+ * `children` holds the key, the colon, the value and any whitespace or
+ * comments in between.
+ */
+export interface CstMember extends CstNodeBase {
+  type: 'member';
+  key: CstKey;
+  value: CstValue;
+  children: CstNode[];
+}
+
+/**
+ * An object, with or without braces
+ *
+ * `children` holds the braces, members, commas and trivia in source order.
+ */
+export interface CstObject extends CstNodeBase {
+  type: 'object';
+  /** False for a braceless root object */
+  braces: boolean;
+  members: CstMember[];
+  children: CstNode[];
+}
+
+/**
+ * An array
+ *
+ * `children` holds the brackets, elements, commas and trivia in source order.
+ */
+export interface CstArray extends CstNodeBase {
+  type: 'array';
+  elements: CstValue[];
+  children: CstNode[];
+}
+
+/**
+ * The whole document: the root value surrounded by whitespace and comments
+ */
+export interface CstDocument extends CstNodeBase {
+  type: 'document';
+  value: CstValue;
+  children: CstNode[];
+}
+
+/**
+ * Any node that represents a value
+ */
+export type CstValue = CstObject | CstArray | CstString | CstNumber | CstLiteral;
+
+/**
+ * Any node of the tree
+ */
+export type CstNode = CstDocument | CstMember | CstKey | CstValue | CstComma | CstPunctuator | CstComment | CstWhitespace;
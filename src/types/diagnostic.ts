@@ -0,0 +1,72 @@
+/**
+ * Diagnostic type definitions
+ *
+ * This module defines the interfaces used to report problems found while
+ * parsing Hjson text in error-tolerant mode.
+ *
+ * @module
+ */
+
+import { HjsonErrorCode } from './errors';
+import { SourceLocationMap } from './location';
+
+/**
+ * Severity of a diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in Hjson text
+ *
+ * Positions follow the same conventions as `HjsonSyntaxError`: offsets are
+ * zero-based, lines and columns are one-based.
+ *
+ * @example
+ * ```typescript
+ * const diagnostic: Diagnostic = {
+ *   message: "Expected ':' instead of '2'",
+ *   code: HjsonErrorCode.MissingColon,
+ *   severity: 'error',
+ *   line: 3, column: 7, offset: 15, endOffset: 16
+ * };
+ * ```
+ */
+export interface Diagnostic {
+  /** Human readable description, without position */
+  message: string;
+
+  /** Machine-readable error code */
+  code: HjsonErrorCode;
+
+  /** Severity of the problem */
+  severity: DiagnosticSeverity;
+
+  /** One-based line number */
+  line: number;
+
+  /** One-based column number */
+  column: number;
+
+  /** Zero-based offset of the first offending character */
+  offset: number;
+
+  /** Zero-based offset just past the offending range */
+  endOffset: number;
+
+  /** Hint about the probable cause */
+  hint?: string;
+}
+
+/**
+ * Result of an error-tolerant parse
+ */
+export interface ParseResult {
+  /** The best-effort parsed value */
+  value: any;
+
+  /** Every problem found, in source order */
+  diagnostics: Diagnostic[];
+
+  /** Location of every value, present when the `locations` option is set */
+  locations?: SourceLocationMap;
+}
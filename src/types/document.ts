@@ -0,0 +1,94 @@
+/**
+ * Document type definitions
+ *
+ * This module defines the interfaces for editing a parsed Hjson document
+ * while keeping its comments and key order.
+ *
+ * @module
+ */
+
+import { StringifyOptions } from './stringify-options';
+
+/**
+ * Path to a value in a document
+ *
+ * Either a JSON pointer (RFC 6901) such as `"/server/ports/0"`, or an array
+ * of keys and indices such as `['server', 'ports', 0]`. The empty pointer
+ * `""` or empty array refers to the root value.
+ */
+export type DocumentPath = string | (string | number)[];
+
+/**
+ * Where a comment is placed relative to a value
+ * - 'before': on the lines above the value
+ * - 'after': on the same line, following the value
+ */
+export type CommentPosition = 'before' | 'after';
+
+/**
+ * An editable Hjson document
+ *
+ * All edits keep the comment bookkeeping (`__COMMENTS__`) of the affected
+ * objects and arrays consistent, so `toString()` keeps every comment that
+ * belongs to a value that is still present.
+ *
+ * @example
+ * ```typescript
+ * const doc = Hjson.parseDocument(text);
+ * doc.set('/server/port', 8080);
+ * doc.setComment('/server/port', 'changed by deploy', 'after');
+ * fs.writeFileSync(file, doc.toString());
+ * ```
+ */
+export interface HjsonDocument {
+  /** The root value */
+  readonly value: any;
+
+  /**
+   * Gets the value at a path
+   * @param path - The path to the value
+   * @returns The value, or undefined if the path does not exist
+   */
+  get(path: DocumentPath): any;
+
+  /**
+   * Sets the value at a path
+   * The parent must exist. New object keys are appended after the existing
+   * ones; for arrays, an index equal to the length (or `-`) appends.
+   * @param path - The path to the value
+   * @param value - The new value
+   */
+  set(path: DocumentPath, value: any): void;
+
+  /**
+   * Deletes the value at a path, together with its comments
+   * @param path - The path to the value
+   * @returns True if a value was deleted
+   */
+  delete(path: DocumentPath): boolean;
+
+  /**
+   * Inserts a value into an array
+   * @param arrayPath - The path to the array
+   * @param index - The position to insert at
+   * @param value - The value to insert
+   */
+  insert(arrayPath: DocumentPath, index: number, value: any): void;
+
+  /**
+   * Sets or removes the comment of a value
+   * Lines that are not comments yet are prefixed with `# `.
+   * @param path - The path to the value
+   * @param text - The comment text, empty to remove the comment
+   * @param position - Where to place the comment
+   */
+  setComment(path: DocumentPath, text: string, position: CommentPosition): void;
+
+  /**
+   * Stringifies the document with comments preserved
+   * For a document parsed from text, only the values and comments that were
+   * edited are re-printed; the rest of the text is kept byte for byte.
+   * @param options - Stringify options
+   */
+  toString(options?: StringifyOptions): string;
+}
@@ -0,0 +1,87 @@
+/**
+ * Error type definitions
+ *
+ * This module defines the machine-readable error codes reported by the Hjson
+ * parser. The codes are stable across releases and can be used by tooling to
+ * react to specific failures without inspecting the error message.
+ *
+ * @module
+ */
+
+/**
+ * Hjson syntax error codes
+ *
+ * Each distinct failure of the parser is identified by one of these codes.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Hjson.parse(text);
+ * } catch (e) {
+ *   if (e instanceof HjsonSyntaxError && e.code === HjsonErrorCode.MissingColon) {
+ *     highlight(e.offset, e.endOffset);
+ *   }
+ * }
+ * ```
+ */
+export enum HjsonErrorCode {
+  /** Found ':' but no key name */
+  EmptyKey = 'EMPTY_KEY',
+
+  /** A quoteless key name contains whitespace */
+  KeyWhitespace = 'KEY_WHITESPACE',
+
+  /** End of input while looking for a key name */
+  KeyEndOfInput = 'KEY_END_OF_INPUT',
+
+  /** A punctuator character was found where a key name was expected */
+  KeyPunctuator = 'KEY_PUNCTUATOR',
+
+  /** Invalid hex digit in a \u escape sequence */
+  BadUnicodeEscape = 'BAD_UNICODE_ESCAPE',
+
+  /** Unknown escape sequence in a quoted string */
+  BadEscape = 'BAD_ESCAPE',
+
+  /** A quoted string contains a newline */
+  StringNewline = 'STRING_NEWLINE',
+
+  /** End of input inside a quoted string */
+  UnterminatedString = 'UNTERMINATED_STRING',
+
+  /** End of input inside a ''' multiline string */
+  UnterminatedMultilineString = 'UNTERMINATED_MULTILINE_STRING',
+
+  /** A punctuator character was found where a value was expected */
+  UnexpectedPunctuator = 'UNEXPECTED_PUNCTUATOR',
+
+  /** End of input while parsing an array (missing ']') */
+  UnterminatedArray = 'UNTERMINATED_ARRAY',
+
+  /** Expected ':' after a key name */
+  MissingColon = 'MISSING_COLON',
+
+  /** End of input while parsing an object (missing '}') */
+  UnterminatedObject = 'UNTERMINATED_OBJECT',
+
+  /** Characters found after the root value */
+  TrailingCharacters = 'TRAILING_CHARACTERS',
+
+  /** A key occurs twice in the same object and `duplicateKeys` is 'error' */
+  DuplicateKey = 'DUPLICATE_KEY',
+
+  /** A `__proto__` key and `protoKeys` is 'error' */
+  ProtoKey = 'PROTO_KEY',
+
+  /** A `${` placeholder is not closed or has no name */
+  BadPlaceholder = 'BAD_PLACEHOLDER',
+
+  /** No resolver has a value for a placeholder, or it refers to itself */
+  UnresolvedPlaceholder = 'UNRESOLVED_PLACEHOLDER',
+
+  /** A `$ref` is not a JSON pointer within the document, points nowhere or cannot be merged */
+  BadReference = 'BAD_REFERENCE',
+
+  /** A `$ref` points to a value containing it */
+  CircularReference = 'CIRCULAR_REFERENCE',
+}
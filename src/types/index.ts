@@ -9,6 +9,23 @@
 
 export { DSF } from './dsf';
 export { ParseOptions } from './parse-options';
+export { Reviver, ReviverContext } from './reviver';
+export { InterpolationResolver, InterpolationContext } from './interpolation';
 export { StringifyOptions } from './stringify-options';
+export { Replacer } from './replacer';
+export { toHjson, SerializeContext, Serializer, HjsonSerializable } from './serializer';
 export { Comments } from './comments';
-export { Token } from './token';
\ No newline at end of file
+export { Token } from './token';
+export { HjsonErrorCode } from './errors';
+export { Diagnostic, DiagnosticSeverity, ParseResult } from './diagnostic';
+export { DocumentPath, CommentPosition, HjsonDocument } from './document';
+export { JsonSchema, JsonSchemaType, JsonSchemaDefinition, SchemaViolation, SchemaValidationResult } from './schema';
+export { CliIo } from './cli';
+export { LoadOptions, IncludeSite } from './load';
+export { TextEdit, LintDiagnostic, LintProblem, LintContext, LintRule, LintRuleSetting, LintConfig } from './lint';
+export { StreamHandler, StreamParser, TextChunk, ReadableStreamLike, TextSource } from './stream';
+export { SourcePosition, SourceRange, SourceLocation, SourceLocationMap, LocatedParseResult } from './location';
+export {
+  CstNode, CstValue, CstDocument, CstObject, CstArray, CstMember, CstKey,
+  CstString, CstNumber, CstLiteral, CstComma, CstPunctuator, CstComment, CstWhitespace
+} from './cst';
\ No newline at end of file
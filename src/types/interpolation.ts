@@ -0,0 +1,39 @@
+/**
+ * Interpolation type definitions
+ *
+ * This module defines the resolvers that supply the values of `${NAME}`
+ * placeholders when `ParseOptions.interpolate` is set.
+ *
+ * @module
+ */
+
+/**
+ * What a resolver receives besides the placeholder name
+ */
+export interface InterpolationContext {
+  /** Keys and indices from the root to the string containing the placeholder */
+  path: (string | number)[];
+
+  /**
+   * Gets a value of the document being parsed, with its placeholders resolved
+   * @param path - Keys and indices from the root
+   * @returns The value, undefined if there is none, or a promise of it when
+   * the value needs an asynchronous resolver
+   */
+  lookup(path: (string | number)[]): any;
+}
+
+/**
+ * Supplies the value of a placeholder
+ *
+ * Resolvers are asked in order until one returns a value other than
+ * undefined. Strings, numbers, booleans and bigints are inserted as text.
+ * Returning a promise requires `parseAsync`.
+ *
+ * @example
+ * ```typescript
+ * const upper: InterpolationResolver = (name) => name.startsWith('upper:') ? name.slice(6).toUpperCase() : undefined;
+ * Hjson.parse('a: ${upper:x}', { interpolate: [upper] }); // { a: 'X' }
+ * ```
+ */
+export type InterpolationResolver = (name: string, context: InterpolationContext) => unknown;
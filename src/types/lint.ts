@@ -0,0 +1,136 @@
+/**
+ * Linter type definitions
+ *
+ * This module defines the rules run by `lint`, their configuration and the
+ * problems they report.
+ *
+ * @module
+ */
+
+import { CstDocument } from './cst';
+import { DiagnosticSeverity } from './diagnostic';
+
+/**
+ * A replacement of a range of the source text
+ */
+export interface TextEdit {
+  /** Zero-based offset of the first replaced character */
+  start: number;
+
+  /** Zero-based offset just past the replaced range */
+  end: number;
+
+  /** The replacement text */
+  text: string;
+}
+
+/**
+ * A problem found by a lint rule
+ *
+ * Positions follow the same conventions as `Diagnostic`.
+ */
+export interface LintDiagnostic {
+  /** Name of the rule reporting the problem, `syntax` for parse errors */
+  rule: string;
+
+  /** Human readable description, without position */
+  message: string;
+
+  /** Severity configured for the rule */
+  severity: DiagnosticSeverity;
+
+  /** One-based line number */
+  line: number;
+
+  /** One-based column number */
+  column: number;
+
+  /** Zero-based offset of the first offending character */
+  offset: number;
+
+  /** Zero-based offset just past the offending range */
+  endOffset: number;
+
+  /** Edits fixing the problem, if it can be fixed automatically */
+  fix?: TextEdit[];
+}
+
+/**
+ * What a rule passes to `LintContext.report`
+ */
+export interface LintProblem {
+  message: string;
+  start: number;
+  end: number;
+  fix?: TextEdit[];
+}
+
+/**
+ * What a rule receives when checking a document
+ */
+export interface LintContext {
+  /** The source text */
+  text: string;
+
+  /** The syntax tree of the text */
+  cst: CstDocument;
+
+  /** The options configured for the rule, undefined if none */
+  options: any;
+
+  /** Reports a problem */
+  report(problem: LintProblem): void;
+}
+
+/**
+ * A lint rule
+ *
+ * @example
+ * ```typescript
+ * const noTodo: LintRule = {
+ *   name: 'no-todo',
+ *   check(context) {
+ *     const i = context.text.indexOf('TODO');
+ *     if (i >= 0) context.report({ message: 'Unresolved TODO', start: i, end: i + 4 });
+ *   }
+ * };
+ * Hjson.lint(text, { plugins: [noTodo], rules: { 'no-todo': 'error' } });
+ * ```
+ */
+export interface LintRule {
+  /** Name of the rule in `LintConfig.rules` */
+  name: string;
+
+  /** Severity when the rule is not configured, 'off' to only run it on request */
+  severity?: DiagnosticSeverity | 'off';
+
+  /** Checks a document, reporting problems through the context */
+  check(context: LintContext): void;
+}
+
+/**
+ * The setting of a rule: its severity, or its severity and options
+ */
+export type LintRuleSetting = DiagnosticSeverity | 'off' | [DiagnosticSeverity | 'off', any];
+
+/**
+ * Configuration of `lint`
+ *
+ * @example
+ * ```typescript
+ * const config: LintConfig = {
+ *   rules: {
+ *     'comment-style': ['error', '#'],
+ *     'indent': ['warning', 2],
+ *     'no-unneeded-quotes': 'off',
+ *   }
+ * };
+ * ```
+ */
+export interface LintConfig {
+  /** Settings by rule name, unlisted rules use their default severity */
+  rules?: Record<string, LintRuleSetting>;
+
+  /** Additional rules */
+  plugins?: LintRule[];
+}
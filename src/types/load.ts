@@ -0,0 +1,57 @@
+/**
+ * File loader type definitions
+ *
+ * This module defines the options of `loadFile` and how it reports where a
+ * file was included from.
+ *
+ * @module
+ */
+
+import { ParseOptions } from './parse-options';
+
+/**
+ * Options for loading Hjson files
+ *
+ * The parse options apply to every file. `read` is required because the
+ * library does not depend on a file system.
+ *
+ * @example
+ * ```typescript
+ * const config = await Hjson.loadFile('config/app.hjson', {
+ *   include: true,
+ *   read: (file) => fs.promises.readFile(file, 'utf8'),
+ * });
+ * ```
+ */
+export interface LoadOptions extends Omit<ParseOptions, 'locations'> {
+  /**
+   * Reads a file
+   * @param file - The file name, with `/` separators and relative to the
+   * current directory unless the loaded path was absolute
+   */
+  read(file: string): Promise<string> | string;
+
+  /**
+   * Resolve `$include` keys (default: false)
+   *
+   * An object with an `$include` key, naming a file or an array of files
+   * relative to the including file, is replaced by the included objects
+   * deep-merged in order, with the members of the object itself merged last.
+   * Objects are merged key by key, any other value replaces the previous one.
+   */
+  include?: boolean;
+}
+
+/**
+ * Where a file was included from
+ */
+export interface IncludeSite {
+  /** The including file */
+  file: string;
+
+  /** One-based line of the included file name */
+  line: number;
+
+  /** One-based column of the included file name */
+  column: number;
+}
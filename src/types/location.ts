@@ -0,0 +1,63 @@
+/**
+ * Source location type definitions
+ *
+ * This module defines the interfaces used to map parsed values back to their
+ * position in the Hjson source text.
+ *
+ * @module
+ */
+
+/**
+ * A position in the source text
+ *
+ * Offsets are zero-based, lines and columns are one-based.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * A range of the source text, `end` is exclusive
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Location of a value and, for object members, of its key
+ */
+export interface SourceLocation {
+  /** Range of the key name including quotes, absent for array elements and the root */
+  key?: SourceRange;
+
+  /** Range of the value */
+  value: SourceRange;
+}
+
+/**
+ * Map from JSON pointer (RFC 6901) to source location
+ *
+ * The root value is stored under the empty pointer `""`.
+ *
+ * @example
+ * ```typescript
+ * const { value, locations } = Hjson.parse(text, { locations: true });
+ * const loc = locations.get('/server/port');
+ * console.log(loc?.value.start.line, loc?.value.start.column);
+ * ```
+ */
+export type SourceLocationMap = Map<string, SourceLocation>;
+
+/**
+ * Result of a parse with `locations` enabled
+ */
+export interface LocatedParseResult {
+  /** The parsed value */
+  value: any;
+
+  /** Location of every value in the result */
+  locations: SourceLocationMap;
+}
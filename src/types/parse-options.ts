@@ -8,6 +8,8 @@
  */
 
 import { DSF } from './dsf';
+import { Reviver } from './reviver';
+import { InterpolationResolver } from './interpolation';
 
 /**
  * Hjson parse options
@@ -55,4 +57,140 @@ export interface ParseOptions {
    * @default true
    */
   legacyRoot?: boolean;
-}
\ No newline at end of file
+
+  /** 
+   * Record source locations
+   * 
+   * When true, `parse` returns `{ value, locations }` where `locations` maps
+   * the JSON pointer of every value to the line/column range of its key and value.
+   * 
+   * @default false
+   */
+  locations?: boolean;
+
+  /**
+   * Duplicate key policy
+   *
+   * What to do when a key occurs more than once in the same object:
+   * - 'last': the last value wins
+   * - 'first': the first value wins, later ones are ignored
+   * - 'error': throw an `HjsonSyntaxError` naming both occurrences
+   * - 'collect': gather every value into an array, in source order
+   *
+   * @default 'last'
+   */
+  duplicateKeys?: 'last' | 'first' | 'error' | 'collect';
+
+  /**
+   * Prototype key policy
+   *
+   * What to do with a `__proto__` key, which would change the prototype of
+   * the result. `constructor` and `prototype` keys are always kept as own
+   * data properties.
+   * - 'error': throw an `HjsonSyntaxError`
+   * - 'ignore': drop the member
+   * - 'preserve': keep it as an own data property, the prototype is never changed
+   *
+   * @default 'error'
+   */
+  protoKeys?: 'error' | 'ignore' | 'preserve';
+
+  /**
+   * Null-prototype objects
+   *
+   * When true, objects are created with `Object.create(null)`, so no key
+   * can collide with a property inherited from `Object.prototype`.
+   *
+   * @default false
+   */
+  nullPrototype?: boolean;
+
+  /**
+   * Reviver
+   *
+   * Transforms every parsed value bottom-up, like the reviver of
+   * `JSON.parse`. It can also be passed as the second argument of `parse`.
+   */
+  reviver?: Reviver;
+
+  /**
+   * Native types
+   *
+   * When true, integers too large for a number come back as BigInt (unless
+   * `numbers` is set) and `base64:` strings written by the binary DSF as
+   * Uint8Array, matching `StringifyOptions.nativeTypes`. Small BigInt values,
+   * typed arrays other than Uint8Array and Buffer cannot be told apart from
+   * numbers, arrays and Uint8Array.
+   *
+   * @default false
+   */
+  nativeTypes?: boolean;
+
+  /**
+   * Maps and Sets
+   *
+   * JSON pointers of values to turn into a Map or a Set; `*` matches any key
+   * or index. Maps are created from objects or arrays of [key, value] pairs,
+   * Sets from arrays. Conversion happens before the reviver runs.
+   *
+   * @example
+   * ```typescript
+   * Hjson.parse(text, { collections: { '/users': 'map', '/groups/*\/tags': 'set' } });
+   * ```
+   */
+  collections?: Record<string, 'map' | 'set'>;
+
+  /**
+   * Number representation
+   *
+   * - 'number': JavaScript numbers, large integers and long decimals are rounded
+   * - 'bigint': integers as BigInt, other numbers as numbers
+   * - 'auto': numbers, except integers as BigInt and other numbers as
+   *   `HjsonNumber` when a number would lose precision
+   * - 'raw': every number as an `HjsonNumber` holding the original text
+   *
+   * @default 'number', or 'auto' with `nativeTypes`
+   */
+  numbers?: 'number' | 'bigint' | 'auto' | 'raw';
+
+  /**
+   * Placeholder interpolation
+   *
+   * Expands `${NAME}` in quoteless and double-quoted strings with the values
+   * of the resolvers; single-quoted and multiline strings are kept as written.
+   * `${NAME:-default}` uses the default when the value is missing or empty,
+   * `${NAME:?message}` reports the message instead, and `$${` stands for a
+   * literal `${`. A quoteless string becomes a number, boolean or null when its
+   * expanded text is one. Placeholders without a value are syntax errors at
+   * their position. Asynchronous resolvers need `parseAsync`.
+   *
+   * @example
+   * ```typescript
+   * Hjson.parse('url: http://${DB_HOST:-localhost}:${DB_PORT}\nport: ${DB_PORT}', {
+   *   interpolate: [Hjson.resolvers.env(process.env)]
+   * });
+   * ```
+   */
+  interpolate?: InterpolationResolver | InterpolationResolver[];
+
+  /**
+   * References
+   *
+   * Replaces objects like `{ $ref: "#/defaults/retry" }`, a JSON pointer within
+   * the document as written by `StringifyOptions.circular` 'ref', with the value
+   * they point to. The value is shared, not copied. With 'merge', the other keys
+   * of the object are deep-merged over a copy of the target; otherwise they are
+   * an error, like references that point nowhere or to a value containing them.
+   * References are resolved after interpolation and before the reviver.
+   *
+   * @example
+   * ```typescript
+   * const config = Hjson.parse(text, { references: 'merge' });
+   * // defaults: { retry: { count: 3, delay: 1 } }
+   * // upload: { retry: { $ref: "#/defaults/retry", count: 5 } }  -> { count: 5, delay: 1 }
+   * ```
+   *
+   * @default false
+   */
+  references?: boolean | 'merge';
+}
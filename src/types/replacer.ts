@@ -0,0 +1,25 @@
+/**
+ * Replacer type definitions
+ *
+ * This module defines the replacer hook that transforms values while
+ * stringifying, like the second argument of `JSON.stringify`.
+ *
+ * @module
+ */
+
+/**
+ * A function transforming every value before it is stringified
+ *
+ * Called top-down, the root first with the key `""`, then the members of
+ * each returned value. `this` is the object or array holding the value.
+ * Returning `undefined` omits an object member together with its comments;
+ * array elements become `null` instead, like in JSON.
+ *
+ * @example
+ * ```typescript
+ * const replacer: Replacer = (key, value, path) =>
+ *   key === 'password' ? undefined : value;
+ * Hjson.stringify(config, { replacer });
+ * ```
+ */
+export type Replacer = (this: any, key: string, value: any, path: (string | number)[]) => any;
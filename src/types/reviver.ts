@@ -0,0 +1,43 @@
+/**
+ * Reviver type definitions
+ *
+ * This module defines the reviver hook that transforms values while parsing,
+ * like the second argument of `JSON.parse`.
+ *
+ * @module
+ */
+
+/**
+ * Information about the value passed to a reviver
+ */
+export interface ReviverContext {
+  /** Keys and indices from the root to the value, as written in the source */
+  path: (string | number)[];
+
+  /** Source text of the value */
+  source: string;
+
+  /**
+   * How a string or other scalar was written, undefined for objects and arrays
+   * - 'quoted': `"..."` or `'...'`
+   * - 'quoteless': without quotes, also used for numbers, booleans and null
+   * - 'multiline': `'''...'''`
+   */
+  style?: 'quoted' | 'quoteless' | 'multiline';
+}
+
+/**
+ * A function transforming every parsed value
+ *
+ * Called bottom-up, children before their parent and the root last with the
+ * key `""`. `this` is the object or array holding the value. Returning
+ * `undefined` removes the member or element, together with its comments.
+ *
+ * @example
+ * ```typescript
+ * const reviver: Reviver = (key, value, context) =>
+ *   context.style === 'quoteless' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value) : value;
+ * Hjson.parse(text, reviver);
+ * ```
+ */
+export type Reviver = (this: any, key: string, value: any, context: ReviverContext) => any;
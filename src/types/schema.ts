@@ -0,0 +1,116 @@
+/**
+ * Schema type definitions
+ *
+ * This module defines the subset of JSON Schema understood by the built-in
+ * validator, and the violations it reports.
+ *
+ * @module
+ */
+
+/**
+ * Type names of JSON Schema
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * A JSON Schema
+ *
+ * Only the keywords listed here are checked; others are ignored. `$ref` must
+ * point into the same schema (e.g. `#/definitions/port` or `#/$defs/port`),
+ * schemas are never fetched.
+ *
+ * @example
+ * ```typescript
+ * const schema: JsonSchema = {
+ *   type: 'object',
+ *   required: ['port'],
+ *   properties: {
+ *     port: { type: 'integer', minimum: 1, maximum: 65535 }
+ *   },
+ *   additionalProperties: false
+ * };
+ * ```
+ */
+export interface JsonSchema {
+  $ref?: string;
+  definitions?: Record<string, JsonSchemaDefinition>;
+  $defs?: Record<string, JsonSchemaDefinition>;
+
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+
+  required?: string[];
+  properties?: Record<string, JsonSchemaDefinition>;
+  additionalProperties?: JsonSchemaDefinition;
+  minProperties?: number;
+  maxProperties?: number;
+
+  items?: JsonSchemaDefinition;
+  minItems?: number;
+  maxItems?: number;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  allOf?: JsonSchemaDefinition[];
+  anyOf?: JsonSchemaDefinition[];
+  oneOf?: JsonSchemaDefinition[];
+
+  [keyword: string]: any;
+}
+
+/**
+ * A schema, or a boolean accepting (`true`) or rejecting (`false`) every value
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+/**
+ * A value that does not match its schema
+ *
+ * Positions follow the same conventions as `HjsonSyntaxError`: offsets are
+ * zero-based, lines and columns are one-based. Violations of
+ * `additionalProperties` point at the key, all others at the value.
+ */
+export interface SchemaViolation {
+  /** Human readable description, without position */
+  message: string;
+
+  /** The schema keyword that failed, e.g. `type` or `required` */
+  keyword: string;
+
+  /** JSON pointer of the value in the document */
+  path: string;
+
+  /** JSON pointer of the keyword in the schema, e.g. `#/properties/port/type` */
+  schemaPath: string;
+
+  /** One-based line number */
+  line: number;
+
+  /** One-based column number */
+  column: number;
+
+  /** Zero-based offset of the first character */
+  offset: number;
+
+  /** Zero-based offset just past the last character */
+  endOffset: number;
+}
+
+/**
+ * Result of a schema validation
+ */
+export interface SchemaValidationResult {
+  /** The parsed value */
+  value: any;
+
+  /** Every violation, in source order */
+  errors: SchemaViolation[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Serializer type definitions
+ *
+ * This module defines the hooks that let classes control how their instances
+ * are stringified: the `toHjson` method and per-call serializers.
+ *
+ * @module
+ */
+
+/**
+ * Symbol of the method a class implements to control its Hjson output
+ *
+ * @example
+ * ```typescript
+ * class Money {
+ *   constructor(public cents: number) {}
+ *   [toHjson](context: SerializeContext) {
+ *     return context.raw((this.cents / 100).toFixed(2));
+ *   }
+ * }
+ * ```
+ */
+export const toHjson: unique symbol = Symbol.for('hjson.toHjson');
+
+/**
+ * Information passed to `toHjson` methods and serializers
+ */
+export interface SerializeContext {
+  /** Key or index of the value, `""` for the root */
+  key: string;
+
+  /** Keys and indices from the root to the value */
+  path: (string | number)[];
+
+  /** The object or array holding the value */
+  holder: any;
+
+  /**
+   * Marks text to be written as is instead of the value
+   * @param text - A single line of Hjson, e.g. `12.50`
+   * @returns The value to return from the hook
+   */
+  raw(text: string): unknown;
+}
+
+/**
+ * Converts an instance of a class into the value to stringify
+ *
+ * Return a plain value, the result of `context.raw()`, or `undefined` to omit
+ * the member.
+ */
+export type Serializer = (value: any, context: SerializeContext) => any;
+
+/**
+ * An object implementing the `toHjson` hook
+ */
+export interface HjsonSerializable {
+  [toHjson](context: SerializeContext): any;
+}
@@ -0,0 +1,97 @@
+/**
+ * Streaming parser type definitions
+ *
+ * This module defines the events emitted by the streaming (SAX-style) parser
+ * and the parser it returns.
+ *
+ * @module
+ */
+
+import { SourceRange } from './location';
+
+/**
+ * Callbacks receiving the events of the streaming parser
+ *
+ * Every callback is optional and receives the range of the token in the
+ * source. A braceless root object starts and ends with an empty range.
+ *
+ * @example
+ * ```typescript
+ * const parser = Hjson.createStreamParser({
+ *   key: (key) => console.log('key', key),
+ *   value: (value, range) => console.log(value, 'at line', range.start.line),
+ * });
+ * parser.write('name: ');
+ * parser.write('app\n');
+ * parser.end();
+ * ```
+ */
+export interface StreamHandler {
+  /** An object starts, at its `{` */
+  startObject?(range: SourceRange): void;
+
+  /** An object ends, at its `}` */
+  endObject?(range: SourceRange): void;
+
+  /** An array starts, at its `[` */
+  startArray?(range: SourceRange): void;
+
+  /** An array ends, at its `]` */
+  endArray?(range: SourceRange): void;
+
+  /** A key of an object member, including quotes in the range */
+  key?(key: string, range: SourceRange): void;
+
+  /** A string, number, boolean, null or DSF value */
+  value?(value: any, range: SourceRange): void;
+
+  /** A comment, with its `#`, `//` or `/* *\/` markers */
+  comment?(text: string, range: SourceRange): void;
+}
+
+/**
+ * A streaming parser accepting Hjson text in chunks
+ *
+ * Events are emitted as soon as a token is complete. Syntax errors are thrown
+ * as `HjsonSyntaxError` from the `write` or `end` call that detects them.
+ */
+export interface StreamParser {
+  /**
+   * Parses the next chunk of text
+   * @param chunk - The text, may end in the middle of a token
+   */
+  write(chunk: string): void;
+
+  /**
+   * Parses the rest of the text and checks the document is complete
+   */
+  end(): void;
+}
+
+/**
+ * A chunk of Hjson text, as a string or UTF-8 bytes
+ */
+export type TextChunk = string | Uint8Array;
+
+/**
+ * The part of a web `ReadableStream` used to read it
+ */
+export interface ReadableStreamLike<T> {
+  getReader(): {
+    read(): Promise<{ done: boolean, value?: T }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * A source of Hjson text read by `parseAsync`
+ *
+ * Node `Readable` streams are async iterables and can be passed directly.
+ *
+ * @example
+ * ```typescript
+ * const config = await Hjson.parseAsync(fs.createReadStream('config.hjson'));
+ * const data = await Hjson.parseAsync((await fetch(url)).body!);
+ * ```
+ */
+export type TextSource = ReadableStreamLike<TextChunk> | AsyncIterable<TextChunk>;
@@ -8,6 +8,9 @@
  */
 
 import { DSF } from './dsf';
+import { ParseOptions } from './parse-options';
+import { Replacer } from './replacer';
+import { Serializer } from './serializer';
 
 /**
  * Hjson stringify options
@@ -151,4 +154,110 @@ export interface StringifyOptions {
    * @default true
    */
   emitRootBraces?: boolean;
-}
\ No newline at end of file
+
+  /**
+   * Source text
+   *
+   * The Hjson text the value was parsed from. When set, only the parts of the
+   * value that differ from the source are re-printed; everything else,
+   * including comments, whitespace and quoting, is copied from the source
+   * byte for byte. With `keepWhitespaceAndComments`, edited comments are
+   * re-printed too.
+   *
+   * @example
+   * ```typescript
+   * const config = Hjson.rt.parse(text);
+   * config.server.port = 8080;
+   * Hjson.rt.stringify(config, { source: text }); // one-line diff
+   * ```
+   */
+  source?: string;
+
+  /**
+   * Source parse options
+   *
+   * The options `source` was parsed with, such as `dsf` or `legacyRoot`, so
+   * that it is read into the same values as the ones being stringified.
+   * Comments are always kept.
+   */
+  sourceOptions?: ParseOptions;
+
+  /**
+   * Replacer
+   *
+   * Either a function transforming every value before it is stringified, like
+   * the replacer of `JSON.stringify`, or the list of object keys to include at
+   * any depth. Members keep their order; omitted members drop their comments.
+   * When set, `source` is ignored and the whole value is printed; a function
+   * also turns off `condense`.
+   *
+   * @example
+   * ```typescript
+   * Hjson.stringify(config, { replacer: ['name', 'server', 'port'] });
+   * ```
+   */
+  replacer?: Replacer | (string | number)[];
+
+  /**
+   * Serializers
+   *
+   * Converts instances of the given classes, and of classes extending them,
+   * before they are stringified. A serializer takes precedence over the
+   * `toHjson` and `toJSON` methods of the class.
+   *
+   * @example
+   * ```typescript
+   * const serializers = new Map([[Decimal, (d: Decimal) => d.toString()]]);
+   * Hjson.stringify(value, { serializers });
+   * ```
+   */
+  serializers?: Map<Function, Serializer>;
+
+  /**
+   * Circular references
+   *
+   * What to do when a value contains itself:
+   * - 'error': throw an `HjsonCircularError` naming the path of the repetition
+   * - 'placeholder': write `circularPlaceholder` instead
+   * - 'ref': write `{ $ref: '#/path' }`, a JSON pointer to the first occurrence
+   *
+   * @default 'error'
+   */
+  circular?: 'error' | 'placeholder' | 'ref';
+
+  /**
+   * Value written for circular references when `circular` is 'placeholder'
+   *
+   * @default '[Circular]'
+   */
+  circularPlaceholder?: any;
+
+  /**
+   * Shared values
+   *
+   * When true, an object or array met again after it was written, such as the
+   * values shared by `ParseOptions.references`, is written as
+   * `{ $ref: '#/path' }` to its first occurrence instead of a copy.
+   *
+   * @default false
+   */
+  references?: boolean;
+
+  /**
+   * Native types
+   *
+   * When true, Maps are written as objects, or as arrays of [key, value]
+   * pairs if a key is not a string, Sets and typed arrays as arrays, and
+   * Uint8Array and Buffer as `base64:` text using the binary DSF. BigInt is
+   * always written as an exact integer. Use `ParseOptions.nativeTypes` and `collections` to read them back.
+   * Strings the binary DSF would read as bytes, like `base64:abcd`, are quoted.
+   *
+   * Not every type survives the round trip: BigInt in the safe integer range
+   * comes back as a number unless parsed with `numbers: 'bigint'`, typed
+   * arrays other than Uint8Array come back as plain arrays, and Buffer as
+   * Uint8Array.
+   *
+   * @default false
+   */
+  nativeTypes?: boolean;
+}
@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import fs from 'fs';
 import path from 'path';
-import { parse, stringify } from '../src/hjson';
+import { Buffer } from 'node:buffer';
+import { Readable } from 'node:stream';
+import { parse, parseWithDiagnostics, parseAsync, loadFile, createStreamParser, parseToCst, printCst, parseDocument, createDocument, validate, lint, applyFixes, stringify, format, stringifyStream, stringifyReadableStream, rt, comments, dsf, resolvers, HjsonSyntaxError, HjsonCircularError, HjsonLoadError, HjsonNumber, HjsonErrorCode, toHjson, runCli } from '../src/hjson';
+import { SerializeContext, Serializer } from '../src/types';
 
 describe('Hjson解析测试', () => {
   it('应该正确解析hjson文件', () => {
@@ -91,4 +94,1353 @@ describe('Hjson解析测试', () => {
     // 简单断言确保测试通过
     expect(parsed).toBeDefined();
   });
-});
\ No newline at end of file
+});
+
+describe('Hjson语法错误测试', () => {
+  function parseError(text: string): HjsonSyntaxError {
+    try {
+      parse(text);
+    } catch (e) {
+      expect(e).toBeInstanceOf(HjsonSyntaxError);
+      return e as HjsonSyntaxError;
+    }
+    throw new Error('expected a syntax error');
+  }
+
+  it('应该报告错误的行列和偏移量', () => {
+    const e = parseError('{\n  a: 1\n  "b" 2\n}');
+    expect(e.code).toBe(HjsonErrorCode.MissingColon);
+    expect(e.line).toBe(3);
+    expect(e.column).toBe(7);
+    expect(e.offset).toBe(15);
+    expect(e.endOffset).toBe(16);
+    expect(e.message).toContain('at line 3,7');
+  });
+
+  it('应该为不同的错误提供错误码', () => {
+    expect(parseError('{ "a\n": 1 }').code).toBe(HjsonErrorCode.StringNewline);
+    expect(parseError('{ a: "abc').code).toBe(HjsonErrorCode.UnterminatedString);
+    expect(parseError("{ a: '''abc").code).toBe(HjsonErrorCode.UnterminatedMultilineString);
+    expect(parseError('[1, 2').code).toBe(HjsonErrorCode.UnterminatedArray);
+    expect(parseError('{ a: 1').code).toBe(HjsonErrorCode.UnterminatedObject);
+    expect(parseError('{ a: 1 } x').code).toBe(HjsonErrorCode.TrailingCharacters);
+    expect(parseError('{ "\\q": 1 }').code).toBe(HjsonErrorCode.BadEscape);
+  });
+
+  it('应该提供缺少括号的提示', () => {
+    const e = parseError('{\n  a: hello}\n');
+    expect(e.code).toBe(HjsonErrorCode.UnterminatedObject);
+    expect(e.hint).toContain("found '}' in a string value");
+  });
+});
+
+describe('Hjson容错解析测试', () => {
+  it('应该跳过错误继续解析并报告所有问题', () => {
+    const { value, diagnostics } = parseWithDiagnostics('{\n  a 1\n  b: "x\n  c: 3\n');
+    expect(value).toEqual({ a: 1, b: 'x', c: 3 });
+    expect(diagnostics.map(d => [d.code, d.line, d.severity])).toEqual([
+      [HjsonErrorCode.MissingColon, 2, 'error'],
+      [HjsonErrorCode.StringNewline, 3, 'error'],
+      [HjsonErrorCode.UnterminatedObject, 5, 'error'],
+    ]);
+  });
+
+  it('应该处理缺少的括号', () => {
+    expect(parseWithDiagnostics('{ a: [1, 2 }').value).toEqual({ a: [1, 2] });
+    expect(parseWithDiagnostics('[{ a: 1 ]').value).toEqual([{ a: 1 }]);
+  });
+
+  it('应该在无错误时返回与parse相同的结果', () => {
+    const text = fs.readFileSync(path.resolve(__dirname, './test.hjson'), 'utf-8');
+    const { value, diagnostics } = parseWithDiagnostics(text);
+    expect(diagnostics).toEqual([]);
+    expect(value).toEqual(parse(text));
+  });
+});
+
+describe('Hjson语法树测试', () => {
+  it('打印语法树应该逐字节还原输入', () => {
+    const hjsonContent = fs.readFileSync(path.resolve(__dirname, './test.hjson'), 'utf-8');
+    expect(printCst(parseToCst(hjsonContent))).toBe(hjsonContent);
+
+    const crlf = '# header\r\na: 1 // one\r\nb: "two", c: [ 1\r\n  2 ]\r\n';
+    expect(printCst(parseToCst(crlf))).toBe(crlf);
+  });
+
+  it('应该为每个节点提供类型和位置', () => {
+    const text = "{\n  'k': 1.50 # note\n  s:\n    '''\n    a\n    '''\n}";
+    const doc = parseToCst(text);
+    const root = doc.value;
+    expect(root.type).toBe('object');
+    if (root.type !== 'object') return;
+
+    const [k, s] = root.members;
+    expect(k.key).toMatchObject({ style: 'single', raw: "'k'", value: 'k' });
+    expect(k.value).toMatchObject({ type: 'number', raw: '1.50', value: 1.5 });
+    expect(text.slice(k.value.start, k.value.end)).toBe('1.50');
+    expect(root.children.some(n => n.type === 'comment' && n.raw === '# note')).toBe(true);
+    expect(s.value).toMatchObject({ type: 'string', style: 'multiline', value: 'a' });
+  });
+
+  it('应该与parse抛出相同的错误', () => {
+    expect(() => parseToCst('{ a: 1')).toThrow(HjsonSyntaxError);
+    expect(() => parseToCst('{ "a" 1 }')).toThrow("Expected ':'");
+  });
+});
+
+describe('Hjson源码位置测试', () => {
+  const text = '# config\nserver: {\n  host: \"localhost\" # name\n  "port": 8080\n}\nlist: [ a\n  b\n]\n';
+
+  it('应该返回JSON指针到键和值位置的映射', () => {
+    const { value, locations } = parse(text, { locations: true });
+    expect(value).toEqual({ server: { host: 'localhost', port: 8080 }, list: ['a', 'b'] });
+
+    const port = locations.get('/server/port')!;
+    expect(port.key).toMatchObject({ start: { line: 4, column: 3 }, end: { line: 4, column: 9 } });
+    expect(port.value.start).toEqual({ line: 4, column: 11, offset: text.indexOf('8080') });
+    expect(text.slice(port.value.start.offset, port.value.end.offset)).toBe('8080');
+
+    const b = locations.get('/list/1')!;
+    expect(b.key).toBeUndefined();
+    expect(b.value.start).toMatchObject({ line: 7, column: 3 });
+    expect(locations.get('')!.value.start).toMatchObject({ line: 2, column: 1 });
+  });
+
+  it('保留注释时应该返回相同的位置', () => {
+    const plain = parse(text, { locations: true });
+    const withComments = parse(text, { locations: true, keepWhitespaceAndComments: true });
+    expect([...withComments.locations]).toEqual([...plain.locations]);
+  });
+});
+
+describe('Hjson文档编辑测试', () => {
+  const text = '# deploy config\n{\n  # the server\n  server: {\n    host: "example.com" # prod host\n    port: 80\n  }\n  # list\n  tags: [\n    "a" # first\n    b\n    # end of tags\n  ]\n}\n';
+
+  it('应该按路径读取和修改值并保留注释', () => {
+    const doc = parseDocument(text);
+    expect(doc.get('/server/host')).toBe('example.com');
+    expect(doc.get(['tags', 1])).toBe('b');
+    expect(doc.get('/missing/key')).toBeUndefined();
+
+    doc.set('/server/port', 8080);
+    doc.set('/server/tls', true);
+    doc.setComment('/server/tls', 'new key', 'before');
+    doc.setComment('/server/port', 'changed', 'after');
+    const out = doc.toString();
+    expect(out).toContain('# deploy config');
+    expect(out).toContain('host: "example.com" # prod host');
+    expect(out).toContain('port: 8080 # changed');
+    expect(out).toContain('# new key\n    tls: true');
+    expect(parse(out)).toEqual({ server: { host: 'example.com', port: 8080, tls: true }, tags: ['a', 'b'] });
+  });
+
+  it('应该插入和删除数组元素并保持注释一致', () => {
+    const doc = parseDocument(text);
+    doc.insert('/tags', 0, 'z');
+    expect(doc.delete('/tags/2')).toBe(true);
+    doc.set('/tags/-', 'c');
+    const out = doc.toString();
+    expect(out).toContain('    z\n    "a" # first\n    c\n    # end of tags\n  ]');
+    expect(parse(out).tags).toEqual(['z', 'a', 'c']);
+
+    expect(doc.delete('/tags')).toBe(true);
+    expect(doc.delete('/tags')).toBe(false);
+    expect(doc.toString()).not.toContain('# list');
+    expect(() => doc.set('/a/b', 1)).toThrow('path not found');
+    expect(() => doc.insert('/server', 0, 1)).toThrow('not an array');
+  });
+
+  it('应该与rt.parse和rt.stringify配合使用', () => {
+    const value = rt.parse('{\n  # only key\n  a: 1\n}');
+    const doc = createDocument(value);
+    doc.set('/b', 'two words');
+    expect(rt.stringify(value)).toBe('{\n  # only key\n  a: 1\n  b: two words\n}');
+    expect(stringify(value, { keepWhitespaceAndComments: true })).toBe(doc.toString());
+  });
+
+  it('数组元素之间应该输出逗号,逗号前的字符串需要引号', () => {
+    expect(stringify(['a b', 2, 'c d'])).toBe('[\n  "a b",\n  2,\n  c d\n]');
+    expect(stringify([1, 2], { separator: true })).toBe('[\n  1,\n  2\n]');
+  });
+
+  it('bracesSameLine应该把嵌套对象的左括号放在键的同一行', () => {
+    expect(stringify({ a: { b: 1 } })).toBe('{\n  a:\n  {\n    b: 1\n  }\n}');
+    expect(stringify({ a: { b: 1 } }, { bracesSameLine: true })).toBe('{\n  a: {\n    b: 1\n  }\n}');
+    expect(stringify({ s: 'a\nb' })).toBe("{\n  s:\n    '''\n    a\n    b\n    '''\n}");
+  });
+});
+
+describe('Hjson最小差异输出测试', () => {
+  const text = '// config\n{\n  server: {\n    host:   "example.com"   # prod host\n    port: 80,\n    opts: [1, 2, 3]\n  }\n  name: \'single\'\n  text:\n    \'\'\'\n    multi\n    line\n    \'\'\'\n}\n';
+
+  it('未修改时应该逐字节输出原文', () => {
+    expect(stringify(parse(text), { source: text })).toBe(text);
+    expect(rt.stringify(rt.parse(text), { source: text })).toBe(text);
+    expect(parseDocument(text).toString()).toBe(text);
+  });
+
+  it('应该只重新输出修改过的值', () => {
+    const value = parse(text);
+    value.server.port = 8080;
+    value.server.opts[1] = 5;
+    value.name = 'two words';
+    expect(stringify(value, { source: text })).toBe(text
+      .replace('port: 80,', 'port: 8080,')
+      .replace('[1, 2, 3]', '[1, 5, 3]')
+      .replace("'single'", "'two words'"));
+  });
+
+  it('应该在原位置插入新键并删除旧键', () => {
+    const value = parse(text);
+    delete value.text;
+    value.server.tls = true;
+    value.extra = { a: 1 };
+    const out = stringify(value, { source: text });
+    expect(out).toBe('// config\n{\n  server: {\n    host:   "example.com"   # prod host\n    port: 80,\n    opts: [1, 2, 3]\n    tls: true\n  }\n  name: \'single\'\n  extra:\n  {\n    a: 1\n  }\n}\n');
+    expect(parse(out)).toEqual(value);
+  });
+
+  it('应该按调用方的解析选项读取原文', () => {
+    const source = 'mask: 0xff\nport: 80\n';
+    const sourceOptions = { dsf: [dsf.hex] };
+    const value = parse(source, sourceOptions);
+    value.port = 8080;
+    expect(stringify(value, { source, sourceOptions })).toBe('mask: 0xff\nport: 8080\n');
+    expect(stringify(value, { source })).toBe('mask: 255\nport: 8080\n');
+    const doc = parseDocument(source, sourceOptions);
+    doc.set('/port', 8080);
+    expect(doc.toString()).toBe('mask: 0xff\nport: 8080\n');
+  });
+
+  it('应该按最长公共子序列对齐数组元素', () => {
+    const source = 'list: [\n  1 # one\n  2\n  3 # three\n]\n';
+    const value = rt.parse(source);
+    value.list.splice(1, 1);
+    value.list.push(4);
+    expect(stringify(value, { source })).toBe('list: [\n  1 # one\n  3 # three\n  4\n]\n');
+  });
+
+  it('应该输出修改过的注释', () => {
+    const doc = parseDocument(text);
+    doc.setComment('/server/port', 'changed', 'after');
+    doc.setComment('/name', 'the name', 'before');
+    expect(doc.toString()).toBe(text
+      .replace('port: 80,', 'port: 80, # changed')
+      .replace("  name: 'single'", "  # the name\n  name: 'single'"));
+  });
+
+  it('删除最后的条目时应该保留右括号前的注释', () => {
+    let doc = parseDocument('{\n  a: 1\n  # tail\n}\n');
+    doc.delete('/a');
+    expect(doc.toString()).toBe('{\n  # tail\n}\n');
+    doc = parseDocument('x: [\n  1\n  # c\n]\n');
+    doc.delete('/x/0');
+    expect(doc.toString()).toBe('x: [\n  # c\n]\n');
+    const source = 'x: [\n  1\n  # c\n]\n';
+    const value = rt.parse(source);
+    value.x.__COMMENTS__.e = ['# closing', ''];
+    expect(rt.stringify(value, { source })).toBe('x: [\n  1\n  # closing\n]\n');
+  });
+
+  it('单行的对象和数组在插入和删除后应该保持单行', () => {
+    const doc = parseDocument('obj: { a: 1, b: 2 }\nlist: [1,2]\n');
+    doc.set('/obj/c', 'x y');
+    doc.set('/list/-', 3);
+    expect(doc.toString()).toBe('obj: { a: 1, b: 2, c: "x y" }\nlist: [1,2,3]\n');
+    doc.delete('/obj/c');
+    doc.delete('/obj/b');
+    doc.delete('/list/0');
+    expect(doc.toString()).toBe('obj: { a: 1 }\nlist: [2,3]\n');
+    doc.delete('/obj/a');
+    expect(doc.toString()).toBe('obj: {}\nlist: [2,3]\n');
+  });
+
+  it('修改后的字符串应该保持原来的引号风格', () => {
+    const doc = parseDocument("text:\n  '''\n  a\n  b\n  '''\nname: 'x'\nshort: '''s'''\n");
+    doc.set('/text', 'p\nq');
+    doc.set('/name', 'y');
+    doc.set('/short', 'p\n  q');
+    const out = doc.toString();
+    expect(out).toBe("text:\n  '''\n  p\n  q\n  '''\nname: 'y'\nshort: '''\n       p\n         q\n       '''\n");
+    expect(parse(out)).toEqual({ text: 'p\nq', name: 'y', short: 'p\n  q' });
+  });
+});
+
+describe('Hjson模式校验测试', () => {
+  const schema = {
+    type: 'object',
+    required: ['server', 'mode'],
+    properties: {
+      server: { $ref: '#/definitions/server' },
+      mode: { enum: ['dev', 'prod'] },
+      tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' }, maxItems: 3 },
+      retry: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'boolean' }] }
+    },
+    additionalProperties: false,
+    definitions: {
+      server: {
+        type: 'object',
+        required: ['host'],
+        properties: { host: { type: 'string', minLength: 1 }, port: { type: 'integer', minimum: 1, maximum: 65535 } }
+      }
+    }
+  } as const;
+
+  it('合法的文档应该没有错误', () => {
+    const { value, errors } = validate('server: { host: "a", port: 80 }\nmode: dev\ntags: [ "x" ]\nretry: true', schema);
+    expect(errors).toEqual([]);
+    expect(value.server.port).toBe(80);
+  });
+
+  it('应该报告每个错误的行列位置', () => {
+    const text = 'server: {\n  port: 70000\n}\nmode: test\ntags: [ "ok", "Bad" ]\nextra: 1\nretry: 1.5\n';
+    const { errors } = validate(text, schema);
+    expect(errors.map(e => [e.keyword, e.path, e.line, e.column])).toEqual([
+      ['required', '/server', 1, 9],
+      ['maximum', '/server/port', 2, 9],
+      ['enum', '/mode', 4, 7],
+      ['pattern', '/tags/1', 5, 15],
+      ['additionalProperties', '/extra', 6, 1],
+      ['oneOf', '/retry', 7, 8],
+    ]);
+    expect(errors[0].message).toBe("Missing required property 'host'");
+    expect(errors[1].schemaPath).toBe('#/definitions/server/properties/port/maximum');
+  });
+
+  it('应该拒绝非本地的$ref', () => {
+    expect(() => validate('a: 1', { $ref: 'https://example.com/schema.json' })).toThrow('only local $ref');
+  });
+
+  it('BigInt和HjsonNumber应该作为数字校验', () => {
+    const numbers = { type: 'object', properties: { id: { type: 'integer', minimum: 1 }, ratio: { type: 'number', maximum: 1 }, level: { enum: [1, 2] } } } as const;
+    const text = 'id: 12345678901234567890\nratio: 0.50\nlevel: 2';
+    expect(validate(text, numbers, { numbers: 'bigint' }).errors).toEqual([]);
+    expect(validate(text, numbers, { numbers: 'raw' }).errors).toEqual([]);
+    const { errors } = validate('id: 0\nratio: 1.5', { ...numbers, properties: { ...numbers.properties, ratio: { type: 'integer' } } }, { numbers: 'raw' });
+    expect(errors.map(e => [e.keyword, e.path])).toEqual([['minimum', '/id'], ['type', '/ratio']]);
+  });
+});
+
+describe('Hjson重复键测试', () => {
+  const text = '{\n  # first\n  a: 1\n  b: 2\n  # second\n  a: 3 # again\n}';
+
+  it('默认应该保留最后一个值', () => {
+    expect(parse(text)).toEqual({ a: 3, b: 2 });
+    expect(parse(text, { duplicateKeys: 'last' })).toEqual({ a: 3, b: 2 });
+  });
+
+  it('first应该保留第一个值', () => {
+    const { value, locations } = parse(text, { duplicateKeys: 'first', locations: true });
+    expect(value).toEqual({ a: 1, b: 2 });
+    expect(locations.get('/a')!.value.start.line).toBe(3);
+  });
+
+  it('error应该报告两处位置', () => {
+    let error: any;
+    try { parse(text, { duplicateKeys: 'error' }); } catch (e) { error = e; }
+    expect(error).toBeInstanceOf(HjsonSyntaxError);
+    expect(error.code).toBe(HjsonErrorCode.DuplicateKey);
+    expect(error.message).toContain("Duplicate key 'a', first defined at line 3, column 3");
+    expect([error.line, error.column]).toEqual([6, 3]);
+  });
+
+  it('collect应该把所有值收集到数组中', () => {
+    const { value, locations } = parse(text, { duplicateKeys: 'collect', locations: true });
+    expect(value).toEqual({ a: [1, 3], b: 2 });
+    expect(locations.get('/a/0')!.value.start.line).toBe(3);
+    expect(locations.get('/a/1')!.value.start.line).toBe(6);
+  });
+
+  it('保留注释时每个键只应该输出一次', () => {
+    expect(rt.stringify(rt.parse(text))).toBe('{\n  # second\n  a: 3 # again\n  b: 2\n}');
+    expect(rt.stringify(rt.parse(text, { duplicateKeys: 'first' }))).toBe('{\n  # first\n  a: 1\n  b: 2\n}');
+    const collected = rt.stringify(rt.parse(text, { duplicateKeys: 'collect' }));
+    expect(collected).toBe('{\n  a: [\n    # first\n    1,\n    # second\n    3 # again\n  ]\n  b: 2\n}');
+  });
+});
+
+describe('Hjson原型污染防护测试', () => {
+  const text = '{\n  # proto\n  __proto__: { polluted: true }\n  constructor: 1 # ctor\n  a: 2\n}';
+
+  it('默认应该拒绝危险的键', () => {
+    expect(() => parse(text)).toThrow(HjsonSyntaxError);
+    expect(() => parse(text)).toThrow("Key '__proto__' is not allowed at line 3,3");
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('ignore应该丢弃危险的键', () => {
+    const value = parse(text, { protoKeys: 'ignore' });
+    expect(Object.keys(value)).toEqual(['constructor', 'a']);
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+
+  it('preserve应该保留为自有数据属性而不修改原型', () => {
+    const value = parse(text, { protoKeys: 'preserve' });
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value)).toEqual(['__proto__', 'constructor', 'a']);
+    expect(value.polluted).toBeUndefined();
+    expect(Object.getOwnPropertyDescriptor(value, '__proto__')!.value).toEqual({ polluted: true });
+    expect(parse(stringify(value), { protoKeys: 'preserve' })).toEqual(value);
+  });
+
+  it('constructor和prototype在每种模式下都应该保留为自有属性', () => {
+    for (const protoKeys of [undefined, 'error', 'ignore', 'preserve'] as const) {
+      const braceless = parse('constructor: x\na: { prototype: 1 }', { protoKeys });
+      expect(braceless).toEqual({ constructor: 'x', a: { prototype: 1 } });
+      expect(Object.getPrototypeOf(braceless)).toBe(Object.prototype);
+      expect(parse('{ constructor: 1, a: { prototype: 2 } }', { protoKeys })).toEqual({ constructor: 1, a: { prototype: 2 } });
+    }
+  });
+
+  it('无括号的根对象中的__proto__不应该被当作字符串', () => {
+    const braceless = '__proto__: { polluted: true }\na: 1';
+    expect(() => parse(braceless)).toThrow("Key '__proto__' is not allowed at line 1,1");
+    expect(() => parse(braceless, { protoKeys: 'error' })).toThrow(HjsonSyntaxError);
+    expect(parse(braceless, { protoKeys: 'ignore' })).toEqual({ a: 1 });
+    const preserved = parse(braceless, { protoKeys: 'preserve' });
+    expect(Object.keys(preserved)).toEqual(['__proto__', 'a']);
+    expect(preserved.polluted).toBeUndefined();
+    expect(() => parse('{ __proto__: 1 }', { protoKeys: 'error' })).toThrow(HjsonSyntaxError);
+    expect(parse('{ __proto__: 1, a: 1 }', { protoKeys: 'ignore' })).toEqual({ a: 1 });
+    expect(Object.keys(parse('{ __proto__: 1 }', { protoKeys: 'preserve' }))).toEqual(['__proto__']);
+    const { value, diagnostics } = parseWithDiagnostics(braceless);
+    expect(value).toEqual({ a: 1 });
+    expect(diagnostics.map(d => d.code)).toEqual(['PROTO_KEY']);
+  });
+
+  it('应该支持无原型对象', () => {
+    const value = parse('a: { b: 1 }', { nullPrototype: true });
+    expect(Object.getPrototypeOf(value)).toBeNull();
+    expect(Object.getPrototypeOf(value.a)).toBeNull();
+    expect(stringify(value)).toBe('{\n  a:\n  {\n    b: 1\n  }\n}');
+  });
+
+  it('注释的提取与合并应该处理危险的键', () => {
+    const value = rt.parse(text, { protoKeys: 'preserve' });
+    const extracted = comments.extract(value);
+    const plain = parse(text, { protoKeys: 'preserve', nullPrototype: true });
+    comments.merge(extracted, plain);
+    expect(rt.stringify(plain)).toBe('{\n  # proto\n  __proto__:\n  {\n    polluted: true\n  }\n  constructor: 1 # ctor\n  a: 2\n}');
+    expect(rt.stringify({ constructor: 1, toString: 2 })).toBe('{\n  constructor: 1\n  toString: 2\n}');
+  });
+});
+
+describe('Hjson还原函数测试', () => {
+  it('应该自底向上调用并提供上下文', () => {
+    const calls: any[] = [];
+    const value = parse("{\n  a: hello\n  b: [1, '''x''']\n  c: \"q\"\n}", (key, value, context) => {
+      calls.push([key, context.path.join('.'), context.source, context.style]);
+      return value;
+    });
+    expect(value).toEqual({ a: 'hello', b: [1, 'x'], c: 'q' });
+    expect(calls).toEqual([
+      ['a', 'a', 'hello', 'quoteless'],
+      ['0', 'b.0', '1', 'quoteless'],
+      ['1', 'b.1', "'''x'''", 'multiline'],
+      ['b', 'b', "[1, '''x''']", undefined],
+      ['c', 'c', '"q"', 'quoted'],
+      ['', '', "{\n  a: hello\n  b: [1, '''x''']\n  c: \"q\"\n}", undefined],
+    ]);
+  });
+
+  it('应该替换值并把this指向所在容器', () => {
+    const value = parse('a: 1\nb: 2', {
+      reviver: function(this: any, key, value) {
+        if (key === 'b') return this.a + value;
+        return typeof value === 'number' ? value * 10 : value;
+      }
+    });
+    expect(value).toEqual({ a: 10, b: 12 });
+  });
+
+  it('返回undefined应该删除条目并保持注释一致', () => {
+    const text = '{\n  # keep a\n  a: 1\n  # drop b\n  b: 2 # b\n  list: [\n    1\n    # two\n    2\n    3\n  ]\n  # closing\n}';
+    const value = rt.parse(text, {
+      reviver: (key, value) => key === 'b' || value === 2 ? undefined : value
+    });
+    expect(value).toEqual({ a: 1, list: [1, 3] });
+    expect(rt.stringify(value)).toBe('{\n  # keep a\n  a: 1\n  list: [\n    1,\n    3\n  ]\n  # closing\n}');
+  });
+});
+
+describe('Hjson替换函数测试', () => {
+  const value = { name: 'app', server: { port: 80, password: 'x' }, list: [1, 2] };
+
+  it('应该按函数替换并提供路径', () => {
+    const calls: string[] = [];
+    const text = stringify(value, {
+      replacer: function(this: any, key, v, path) {
+        calls.push(path.join('.'));
+        if (key === 'password') return undefined;
+        if (key === '1' && Array.isArray(this)) return undefined;
+        return typeof v === 'number' ? v + 1 : v;
+      }
+    });
+    expect(text).toBe('{\n  name: app\n  server:\n  {\n    port: 81\n  }\n  list: [\n    2,\n    null\n  ]\n}');
+    expect(calls).toEqual(['', 'name', 'server', 'server.port', 'server.password', 'list', 'list.0', 'list.1']);
+  });
+
+  it('应该支持键白名单', () => {
+    expect(stringify(value, { replacer: ['server', 'port', 'list'] })).toBe('{\n  server:\n  {\n    port: 80\n  }\n  list: [\n    1,\n    2\n  ]\n}');
+    expect(stringify(value, { replacer: [] })).toBe('{}');
+  });
+
+  it('替换结果应该经过DSF处理', () => {
+    const text = stringify({ n: 1 }, { replacer: (key, v) => key === 'n' ? Infinity : v, dsf: [dsf.math] });
+    expect(text).toBe('{\n  n: Inf\n}');
+  });
+
+  it('被省略的键不应该留下注释', () => {
+    const data = rt.parse('{\n  # name\n  name: app\n  # secret\n  password: "x" # do not share\n  # closing\n}');
+    expect(rt.stringify(data, { replacer: ['name'] })).toBe('{\n  # name\n  name: app\n  # closing\n}');
+    expect(rt.stringify(data, { replacer: (key, v) => key === 'name' ? undefined : v })).toBe('{\n  # secret\n  password: "x" # do not share\n  # closing\n}');
+  });
+});
+
+describe('Hjson类序列化测试', () => {
+  class Money {
+    constructor(public cents: number) {}
+    [toHjson](context: SerializeContext) {
+      return context.key === 'hidden' ? undefined : context.raw((this.cents / 100).toFixed(2));
+    }
+  }
+  class Id {
+    constructor(public value: string) {}
+    toJSON(key: string) { return 'id-' + this.value + (key ? '@' + key : ''); }
+  }
+  class Decimal {
+    constructor(public digits: string) {}
+  }
+  class Percent extends Decimal {}
+
+  it('应该像JSON.stringify一样调用toJSON', () => {
+    expect(stringify({ a: new Id('1'), list: [new Id('2')] })).toBe('{\n  a: id-1@a\n  list: [\n    id-2@0\n  ]\n}');
+    expect(stringify(new Id('3'))).toBe('id-3');
+  });
+
+  it('toHjson可以返回原样输出的文本或省略成员', () => {
+    expect(stringify({ price: new Money(1250), hidden: new Money(1) })).toBe('{\n  price: 12.50\n}');
+    expect(parse(stringify({ price: new Money(1250) }))).toEqual({ price: 12.5 });
+  });
+
+  it('应该按构造函数使用本次调用注册的序列化函数', () => {
+    const serializers = new Map<Function, Serializer>([
+      [Decimal, (d: Decimal, context) => context.raw(d.digits)],
+      [Id, (id: Id, context) => ({ id: id.value, at: context.path.join('.') })],
+    ]);
+    expect(stringify({ d: new Percent('0.25'), id: new Id('7') }, { serializers, quotes: 'strings' }))
+      .toBe('{\n  d: 0.25\n  id:\n  {\n    id: "7"\n    at: "id"\n  }\n}');
+    expect(stringify({ d: new Decimal('1') })).toBe('{\n  d:\n  {\n    digits: "1"\n  }\n}');
+  });
+
+  it('DSF应该优先于toJSON', () => {
+    const date = new Date(Date.UTC(2024, 0, 2));
+    expect(stringify({ d: date }, { dsf: [dsf.date] })).toBe('{\n  d: 2024-01-02\n}');
+    expect(stringify({ d: date })).toBe('{\n  d: 2024-01-02T00:00:00.000Z\n}');
+  });
+
+  it('原样文本必须是单行', () => {
+    const bad = { [toHjson]: (context: SerializeContext) => context.raw('a\nb') };
+    expect(() => stringify({ bad })).toThrow('raw text must be a single non-empty line');
+  });
+});
+
+describe('Hjson循环引用测试', () => {
+  function cyclic() {
+    const server: any = { name: 'api' };
+    const root: any = { server, list: [server] };
+    server.parent = { server };
+    return root;
+  }
+
+  it('默认应该抛出带路径的错误', () => {
+    expect(() => stringify(cyclic())).toThrow(HjsonCircularError);
+    expect(() => stringify(cyclic())).toThrow('Circular reference at server.parent.server, the same object as server');
+    const list: any[] = [];
+    list.push({ self: list });
+    try {
+      stringify({ list });
+    } catch (e) {
+      expect((e as HjsonCircularError).path).toEqual(['list', 0, 'self']);
+      expect((e as HjsonCircularError).target).toEqual(['list']);
+    }
+    expect.assertions(4);
+  });
+
+  it('重复但不循环的对象不是循环引用', () => {
+    const shared = { a: 1 };
+    expect(parse(stringify({ x: shared, y: [shared, shared] }))).toEqual({ x: { a: 1 }, y: [{ a: 1 }, { a: 1 }] });
+  });
+
+  it('应该支持占位符和$ref指针', () => {
+    expect(parse(stringify(cyclic(), { circular: 'placeholder' }))).toEqual({
+      server: { name: 'api', parent: { server: '[Circular]' } },
+      list: [{ name: 'api', parent: { server: '[Circular]' } }],
+    });
+    expect(parse(stringify(cyclic(), { circular: 'placeholder', circularPlaceholder: null })).server.parent.server).toBeNull();
+    const root: any = { a: { 'x/y': {} } };
+    root.a['x/y'].up = root.a;
+    root.a['x/y'].top = root;
+    expect(stringify(root, { circular: 'ref' })).toBe('{\n  a:\n  {\n    x/y:\n    {\n      up:\n      {\n        $ref: "#/a"\n      }\n      top:\n      {\n        $ref: "#"\n      }\n    }\n  }\n}');
+  });
+});
+
+describe('Hjson原生类型测试', () => {
+  const state = {
+    users: new Map([['ann', { age: 30 }], ['bob', { age: 40 }]]),
+    ids: new Map<any, string>([[1, 'one'], [2, 'two']]),
+    tags: new Set(['a', 'b']),
+    big: 12345678901234567890n,
+    bytes: new Uint8Array([0, 1, 2, 250, 255]),
+    buffer: Buffer.from('Hjson'),
+    floats: new Float32Array([0.5, 1.5]),
+  };
+
+  it('默认不处理这些类型', () => {
+    expect(parse(stringify({ m: new Map([['a', 1]]), s: new Set([1]) }))).toEqual({ m: {}, s: {} });
+  });
+
+  it('应该输出Map、Set、BigInt、类型化数组和Buffer', () => {
+    expect(stringify(state, { nativeTypes: true, condense: 80 })).toBe([
+      '{',
+      '  users:',
+      '  {',
+      '    ann: {age: 30}',
+      '    bob: {age: 40}',
+      '  }',
+      '  ids: [ [ 1, one ], [ 2, two ] ]',
+      '  tags: [ a, b ]',
+      '  big: 12345678901234567890',
+      '  bytes: base64:AAEC+v8=',
+      '  buffer: base64:SGpzb24=',
+      '  floats: [ 0.5, 1.5 ]',
+      '}',
+    ].join('\n'));
+  });
+
+  it('解析时应该还原相同的类型', () => {
+    const text = stringify(state, { nativeTypes: true });
+    const value = parse(text, { nativeTypes: true, collections: { '/users': 'map', '/ids': 'map', '/tags': 'set' } });
+    expect(value.users).toEqual(state.users);
+    expect(value.ids).toEqual(state.ids);
+    expect(value.tags).toEqual(state.tags);
+    expect(value.big).toBe(state.big);
+    expect(value.bytes).toEqual(state.bytes);
+    expect(Array.from(value.buffer)).toEqual(Array.from(state.buffer));
+    expect(value.floats).toEqual([0.5, 1.5]);
+    expect(parse('n: 9007199254740993\nm: 12\nf: 1e30', { nativeTypes: true })).toEqual({ n: 9007199254740993n, m: 12, f: 1e30 });
+  });
+
+  it('往返后应该保持类型,或按文档退化', () => {
+    const text = stringify({ ...state, note: 'base64:abcd', empty: 'base64:', small: new Map([['n', 1n]]) }, { nativeTypes: true });
+    expect(text).toContain('note: "base64:abcd"');
+    expect(text).toContain('empty: "base64:"');
+    const value = parse(text, { nativeTypes: true, collections: { '/users': 'map', '/ids': 'map', '/tags': 'set', '/small': 'map' } });
+    expect(value.note).toBe('base64:abcd');
+    expect(value.empty).toBe('base64:');
+    expect(value.users).toBeInstanceOf(Map);
+    expect(value.tags).toBeInstanceOf(Set);
+    expect(typeof value.big).toBe('bigint');
+    expect(value.bytes).toBeInstanceOf(Uint8Array);
+    // Documented losses
+    expect(value.small.get('n')).toBe(1);
+    expect(parse(text, { nativeTypes: true, numbers: 'bigint', collections: { '/small': 'map' } }).small.get('n')).toBe(1n);
+    expect(Array.isArray(value.floats)).toBe(true);
+    expect(value.buffer).toBeInstanceOf(Uint8Array);
+    expect(Buffer.isBuffer(value.buffer)).toBe(false);
+  });
+
+  it('集合路径应该支持通配符并校验类型', () => {
+    const value = parse('groups: [\n  { tags: [ "x", "y" ] }\n  { tags: [] }\n]', { collections: { '/groups/*/tags': 'set' } });
+    expect(value.groups.map((g: any) => g.tags)).toEqual([new Set(['x', 'y']), new Set()]);
+    expect(() => parse('s: { a: 1 }', { collections: { '/s': 'set' } })).toThrow('expected an array for a Set at /s');
+    expect(() => parse('m: [ 1 ]', { collections: { '/m': 'map' } })).toThrow('expected an object or an array of [key, value] pairs for a Map at /m');
+  });
+
+  it('包含自身的Map应该被检测为循环引用', () => {
+    const m = new Map<string, any>();
+    m.set('self', m);
+    expect(() => stringify({ m }, { nativeTypes: true })).toThrow('Circular reference at m.self, the same object as m');
+  });
+});
+
+describe('Hjson大数与精确数字测试', () => {
+  const text = 'id: 12345678901234567890\nsmall: 42\nprice: 1.50\nexp: 1e3\nneg: -0.0\nlong: 0.1000000000000000000001';
+
+  it('默认应该解析为number', () => {
+    expect(parse(text).id).toBe(12345678901234567000);
+  });
+
+  it('bigint应该把所有整数解析为BigInt', () => {
+    const value = parse(text, { numbers: 'bigint' });
+    expect(value).toEqual({ id: 12345678901234567890n, small: 42n, price: 1.5, exp: 1000, neg: -0, long: 0.1 });
+  });
+
+  it('auto应该只在丢失精度时使用BigInt', () => {
+    const value = parse(text + '\nmin: -9007199254740993\nsafe: 9007199254740991', { numbers: 'auto' });
+    expect(value.id).toBe(12345678901234567890n);
+    expect(value.small).toBe(42);
+    expect(value.min).toBe(-9007199254740993n);
+    expect(value.safe).toBe(9007199254740991);
+  });
+
+  it('auto应该在小数丢失精度时使用HjsonNumber', () => {
+    const value = parse(text + '\nbig: 9007199254740993.5\nfine: 1.0000000000000000001\nzeros: 1.500e2', { numbers: 'auto' });
+    expect(value.big).toBeInstanceOf(HjsonNumber);
+    expect(value.big.lexeme).toBe('9007199254740993.5');
+    expect(value.fine.lexeme).toBe('1.0000000000000000001');
+    expect(value.price).toBe(1.5);
+    expect(value.long.lexeme).toBe('0.1000000000000000000001');
+    expect(value.exp).toBe(1000);
+    expect(value.zeros).toBe(150);
+    expect(value.neg).toBe(-0);
+    expect(stringify({ big: value.big })).toBe('{\n  big: 9007199254740993.5\n}');
+  });
+
+  it('raw应该保留原始文本并原样输出', () => {
+    const value = parse(text + '\nlist: [ 1.0, 2 ]', { numbers: 'raw' });
+    expect(value.price).toBeInstanceOf(HjsonNumber);
+    expect(value.price.lexeme).toBe('1.50');
+    expect(value.long.toString()).toBe('0.1000000000000000000001');
+    expect(+value.exp).toBe(1000);
+    expect(JSON.stringify(value.price)).toBe('1.5');
+    expect(stringify(value)).toBe('{\n  id: 12345678901234567890\n  small: 42\n  price: 1.50\n  exp: 1e3\n  neg: -0.0\n  long: 0.1000000000000000000001\n  list: [\n    1.0,\n    2\n  ]\n}');
+  });
+
+  it('BigInt应该原样输出', () => {
+    const value = { id: 12345678901234567890n, list: [-1n, 2n] };
+    expect(stringify(value)).toBe('{\n  id: 12345678901234567890\n  list: [\n    -1,\n    2\n  ]\n}');
+    expect(parse(stringify(value), { numbers: 'bigint' })).toEqual(value);
+  });
+});
+
+describe('Hjson数字写法保留测试', () => {
+  const text = '{\n  price: 1.50\n  count: 1e3\n  zero: -0.0\n  size: 10.000\n  plain: 7\n  nested: { list: [ 1.0, 2.50 ] }\n}';
+
+  it('往返时应该保留数字的原始写法', () => {
+    expect(rt.stringify(rt.parse(text))).toBe('{\n  price: 1.50\n  count: 1e3\n  zero: -0.0\n  size: 10.000\n  plain: 7\n  nested:\n  {\n    list: [\n      1.0,\n      2.50\n    ]\n  }\n}');
+  });
+
+  it('修改后的数字应该使用规范写法', () => {
+    const value = rt.parse(text);
+    value.price = 2;
+    value.zero = 0;
+    value.nested.list[1] = 2.5; // Same value, spelling kept
+    value.nested.list.push(3.0);
+    const out = rt.stringify(value);
+    expect(out).toContain('price: 2\n');
+    expect(out).toContain('zero: 0\n');
+    expect(out).toContain('list: [\n      1.0,\n      2.50,\n      3\n    ]');
+  });
+
+  it('不保留注释时不记录写法', () => {
+    expect(stringify(parse('a: 1.50'))).toBe('{\n  a: 1.5\n}');
+  });
+
+  it('提取与合并注释时应该保留写法', () => {
+    const extracted = comments.extract(rt.parse('a: 1.50\nb: 2'));
+    expect(extracted.s).toEqual({ a: { n: '1.50' }, b: {} });
+    const plain = parse('a: 1.50\nb: 2');
+    comments.merge(extracted, plain);
+    expect(rt.stringify(plain)).toBe('{\n  a: 1.50\n  b: 2\n}');
+  });
+});
+
+describe('Hjson流式解析测试', () => {
+  const text = "# config\nname: app\nlist: [1, 2.50, true, null, 'x']\nobj: {a: \"q\\u0041\"\n  b: '''\n    ml\n     text\n    '''\n}\n// tail\n";
+
+  /**
+   * Collects the events of a streaming parse as compact tuples
+   */
+  function events(source: string, chunkSize = source.length || 1, options?: any): any[] {
+    const out: any[] = [];
+    const at = (r: any) => r.start.line + ':' + r.start.column + '-' + r.end.line + ':' + r.end.column;
+    const parser = createStreamParser({
+      startObject: r => out.push(['{', at(r)]),
+      endObject: r => out.push(['}', at(r)]),
+      startArray: r => out.push(['[', at(r)]),
+      endArray: r => out.push([']', at(r)]),
+      key: (k, r) => out.push(['key', k, at(r)]),
+      value: (v, r) => out.push(['value', v, at(r)]),
+      comment: (c, r) => out.push(['comment', c, at(r)]),
+    }, options);
+    for (let i = 0; i < source.length; i += chunkSize) parser.write(source.slice(i, i + chunkSize));
+    parser.end();
+    return out;
+  }
+
+  it('应该按顺序产生带位置的事件', () => {
+    expect(events(text)).toEqual([
+      ['comment', '# config', '1:1-1:9'],
+      ['{', '2:1-2:1'],
+      ['key', 'name', '2:1-2:5'],
+      ['value', 'app', '2:7-2:10'],
+      ['key', 'list', '3:1-3:5'],
+      ['[', '3:7-3:8'],
+      ['value', 1, '3:8-3:9'],
+      ['value', 2.5, '3:11-3:15'],
+      ['value', true, '3:17-3:21'],
+      ['value', null, '3:23-3:27'],
+      ['value', 'x', '3:29-3:32'],
+      [']', '3:32-3:33'],
+      ['key', 'obj', '4:1-4:4'],
+      ['{', '4:6-4:7'],
+      ['key', 'a', '4:7-4:8'],
+      ['value', 'qA', '4:10-4:19'],
+      ['key', 'b', '5:3-5:4'],
+      ['value', 'ml\ntext', '5:6-8:8'],
+      ['}', '9:1-9:2'],
+      ['comment', '// tail', '10:1-10:8'],
+      ['}', '11:1-11:1'],
+    ]);
+  });
+
+  it('任意分块写入应该产生相同的事件', () => {
+    const whole = events(text);
+    [1, 2, 3, 7].forEach(size => expect(events(text, size)).toEqual(whole));
+  });
+
+  it('根值与根节点模式应该与parse一致', () => {
+    expect(events('hello world')).toEqual([['value', 'hello world', '1:1-1:12']]);
+    expect(events('')).toEqual([['{', '1:1-1:1'], ['}', '1:1-1:1']]);
+    expect(events('[1,2,]', 1)).toEqual([['[', '1:1-1:2'], ['value', 1, '1:2-1:3'], ['value', 2, '1:4-1:5'], [']', '1:6-1:7']]);
+    expect(events('a: 1', 1, { legacyRoot: false })).toEqual([['value', 'a: 1', '1:1-1:5']]);
+    expect(events('n: 12345678901234567890', 4, { numbers: 'bigint' })[2]).toEqual(['value', 12345678901234567890n, '1:4-1:24']);
+  });
+
+  it('语法错误应该与parse相同', () => {
+    ['{a: 1', '[1', 'a: 1\n}', '{a b: 1}', '[1] x', '{"a" 1}', '"x', "x: '''\nabc"].forEach(source => {
+      let expected: any;
+      try { parse(source); } catch (e) { expected = e; }
+      expect(expected).toBeInstanceOf(HjsonSyntaxError);
+      expect(() => events(source, 1)).toThrow(expected.message.split(' >>> ')[0]);
+    });
+  });
+
+  it('分成小块写入的长记号应该只扫描一遍', () => {
+    const big = 'x'.repeat(200000);
+    const sources = ['a: ' + big + '\n', 'a: "' + big + '"', "a: '''" + big + "'''", '# ' + big + '\nb: 1', '"' + big + '": 1'];
+    sources.forEach(source => {
+      const start = Date.now();
+      const values: any[] = [];
+      const parser = createStreamParser({ value: v => values.push(v) });
+      for (let i = 0; i < source.length; i += 16) parser.write(source.slice(i, i + 16));
+      parser.end();
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(values[0] === big || values[0] === 1).toBe(true);
+    });
+  });
+
+  it('无括号根对象无效时不应该像parse一样退回字符串', () => {
+    ['a: {', 'x: ]#*/', '*/"x: "/*'].forEach(source => {
+      expect(parse(source)).toBe(source);
+      expect(() => events(source)).toThrow(HjsonSyntaxError);
+    });
+  });
+
+  it('出错后应该拒绝继续写入', () => {
+    const parser = createStreamParser({});
+    expect(() => parser.write('[1 }')).toThrow(HjsonSyntaxError);
+    expect(() => parser.write(']')).toThrow(HjsonSyntaxError);
+    const done = createStreamParser({});
+    done.end();
+    expect(() => done.write('a')).toThrow('write after end');
+  });
+});
+
+describe('Hjson异步解析测试', () => {
+  const text = '# 配置\nname: 应用 ✓\nlist: [1, 2]\n';
+  const bytes = new TextEncoder().encode(text);
+
+  /**
+   * Splits bytes into chunks of the given size, cutting through multi-byte characters
+   */
+  function chunks(size: number): Uint8Array[] {
+    const out: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += size) out.push(bytes.slice(i, i + size));
+    return out;
+  }
+
+  it('应该从ReadableStream解析并正确解码被切开的字符', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks(1).forEach(c => controller.enqueue(c));
+        controller.close();
+      }
+    });
+    expect(await parseAsync(stream)).toEqual(parse(text));
+  });
+
+  it('应该从Node流和异步迭代器解析', async () => {
+    expect(await parseAsync(Readable.from(chunks(5).map(c => Buffer.from(c))))).toEqual({ name: '应用 ✓', list: [1, 2] });
+    async function* lines() {
+      yield 'a: 1\n';
+      yield 'b: [';
+      yield '2]';
+    }
+    expect(await parseAsync(lines())).toEqual({ a: 1, b: [2] });
+  });
+
+  it('应该支持与parse相同的选项', async () => {
+    const value = await parseAsync(Readable.from(chunks(3)), { keepWhitespaceAndComments: true });
+    expect(rt.stringify(value)).toBe(rt.stringify(rt.parse(text)));
+    await expect(parseAsync(Readable.from(['a: 1\n}']))).rejects.toThrow(HjsonSyntaxError);
+    await expect(parseAsync(42 as any)).rejects.toThrow('expected a ReadableStream or an async iterable');
+  });
+});
+
+describe('Hjson流式输出测试', () => {
+  const value = {
+    name: 'app',
+    text: 'first\nsecond',
+    list: [1, { a: true, b: null }, [], 'x'],
+    when: new Date(0),
+    nested: { deep: { deeper: [1, 2, 3] } },
+  };
+
+  /**
+   * Reads every chunk of an async iterable
+   */
+  async function collect(chunks: AsyncIterable<string>): Promise<string[]> {
+    const out: string[] = [];
+    for await (const chunk of chunks) out.push(chunk);
+    return out;
+  }
+
+  it('拼接后的输出应该与stringify相同', async () => {
+    const options = [
+      undefined,
+      { colors: true, separator: true },
+      { condense: 40, emitRootBraces: false, bracesSameLine: true },
+      { dsf: [dsf.date], replacer: (key: string, v: any) => key === 'b' ? undefined : v },
+    ];
+    for (const opt of options) {
+      const chunks = await collect(stringifyStream(value, opt as any, 8));
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(stringify(value, opt as any));
+    }
+    const doc = rt.parse('# head\n{\n  // list\n  list: [ 1.50, 2 ] # two\n  empty: {\n    # inside\n  }\n}\n# foot');
+    expect((await collect(stringifyStream(doc, { keepWhitespaceAndComments: true }, 1))).join('')).toBe(rt.stringify(doc));
+  });
+
+  it('应该只在读取时继续输出', async () => {
+    let visited = 0;
+    const rows = Array.from({ length: 100 }, (_, i) => ({ toJSON: () => (visited++, { id: i }) }));
+    const chunks = stringifyStream({ rows }, undefined, 16);
+    await chunks.next();
+    expect(visited).toBeLessThan(5);
+    await chunks.return();
+    expect(visited).toBeLessThan(5);
+  });
+
+  it('应该提供ReadableStream', async () => {
+    const stream = stringifyReadableStream(value, undefined, 10);
+    const reader = stream.getReader();
+    let text = '';
+    for (let r = await reader.read(); !r.done; r = await reader.read()) text += r.value;
+    expect(text).toBe(stringify(value));
+  });
+});
+
+describe('Hjson命令行工具测试', () => {
+  const files: Record<string, string> = {
+    'config.hjson': '# settings\nname: app\nport: 0x1F\nlist: [1, 2]\n',
+    'bad.hjson': '{\n  a: 1\n  b c: 2\n',
+  };
+
+  /**
+   * Runs the command with in-memory files, stdin and output
+   */
+  async function run(args: string[], stdin = ''): Promise<{ code: number, out: string, err: string }> {
+    let out = '', err = '';
+    const code = await runCli(args, {
+      read: async (file) => {
+        if (file === undefined) return stdin;
+        if (!(file in files)) throw new Error('no such file');
+        return files[file];
+      },
+      stdout: text => { out += text; },
+      stderr: text => { err += text; },
+    });
+    return { code, out, err };
+  }
+
+  it('应该在Hjson与JSON之间转换', async () => {
+    expect(await run(['-j', '--dsf', 'hex', 'config.hjson'])).toEqual({ code: 0, out: '{\n  "name": "app",\n  "port": 31,\n  "list": [\n    1,\n    2\n  ]\n}\n', err: '' });
+    expect((await run(['-c'], '{"a": [1, "x"]}')).out).toBe('{"a":[1,"x"]}\n');
+    expect((await run(['-'], '{"a": "b c"}')).out).toBe('{\n  a: b c\n}\n');
+  });
+
+  it('应该按参数设置输出格式', async () => {
+    expect((await run(['--quotes=all', '--separator', '--space', '4'], 'a: x')).out).toBe('{\n    "a": "x",\n}\n');
+    expect((await run(['--braces-same-line'], 'a: {b: 1}')).out).toBe('{\n  a: {\n    b: 1\n  }\n}\n');
+    expect((await run(['--rt', 'config.hjson'])).out).toBe('# settings\n{\n  name: app\n  port: 0x1F\n  list: [\n    1,\n    2\n  ]\n}\n');
+  });
+
+  it('校验模式应该报告带位置的错误和退出码', async () => {
+    expect(await run(['--validate', 'config.hjson'])).toEqual({ code: 0, out: '', err: '' });
+    const result = await run(['--validate', 'bad.hjson']);
+    expect(result.code).toBe(1);
+    expect(result.out).toBe('');
+    expect(result.err).toContain('bad.hjson:3:4: error: Found whitespace in your key name (use quotes to include) [KEY_WHITESPACE]\n');
+    expect(result.err).toContain('bad.hjson:4:1: error: End of input while parsing an object');
+    expect((await run(['bad.hjson'])).code).toBe(1);
+  });
+
+  it('参数或读取错误应该返回2', async () => {
+    expect(await run(['--nope'])).toEqual({ code: 2, out: '', err: "hjson: unknown option --nope\nTry 'hjson --help' for more information.\n" });
+    expect((await run(['--quotes', 'some'])).code).toBe(2);
+    expect((await run(['--dsf', 'hex,time'])).err).toContain("unknown DSF 'time'");
+    expect((await run(['a', 'b'])).code).toBe(2);
+    expect(await run(['missing.hjson'])).toEqual({ code: 2, out: '', err: 'hjson: cannot read missing.hjson: no such file\n' });
+    const help = await run(['--help']);
+    expect(help.code).toBe(0);
+    expect(help.out).toContain('Usage: hjson [options] [file]');
+  });
+});
+
+describe('Hjson格式化测试', () => {
+  it('应该保留注释并且结果稳定', () => {
+    const text = '# head\n{\n  a: 1 # one\n  b: [1,2]\n  c: "x"\n}';
+    const formatted = format(text);
+    expect(formatted).toBe('# head\n{\n  a: 1 # one\n  b: [\n    1,\n    2\n  ]\n  c: x\n}\n');
+    expect(format(formatted)).toBe(formatted);
+    expect(format('a: 1', { quotes: 'all', space: 4, eol: '\r\n' })).toBe('"a": 1\r\n');
+    expect(format('a: 1', { emitRootBraces: true })).toBe('{\n  a: 1\n}\n');
+  });
+
+  /**
+   * Runs `hjson fmt` on an in-memory file tree below /repo
+   */
+  async function fmt(args: string[], files: Record<string, string>): Promise<{ code: number, out: string, err: string }> {
+    let out = '', err = '';
+    const absolute = (file: string) => file.startsWith('/') ? file : '/repo/' + file;
+    const code = await runCli(['fmt', ...args], {
+      read: async file => {
+        const text = files[absolute(file!)];
+        if (text === undefined) throw new Error('no such file');
+        return text;
+      },
+      write: async (file, text) => { files[absolute(file)] = text; },
+      readDir: async dir => {
+        const prefix = absolute(dir === '.' ? '' : dir + '/');
+        const names = new Map<string, boolean>();
+        Object.keys(files).filter(f => f.startsWith(prefix)).forEach(f => {
+          const rest = f.slice(prefix.length);
+          names.set(rest.split('/')[0], rest.includes('/'));
+        });
+        return Array.from(names, ([name, directory]) => ({ name, directory }));
+      },
+      cwd: () => '/repo',
+      stdout: text => { out += text; },
+      stderr: text => { err += text; },
+    });
+    return { code, out, err };
+  }
+
+  const tree = () => ({
+    '/.hjsonfmtrc': 'space: 4',
+    '/repo/.hjsonfmtrc': '# team style\nquotes: keys\n',
+    '/repo/ok.hjson': '{\n  "a": 1\n}\n',
+    '/repo/conf/app.hjson': '{a: 1, b: [1]}',
+    '/repo/conf/deep/db.hjson': '// db\nhost: x\n',
+    '/repo/conf/deep/.hjsonfmtrc': 'separator: true',
+    '/repo/node_modules/pkg/x.hjson': '{a:1}',
+  });
+
+  it('--check应该列出需要格式化的文件并返回1', async () => {
+    const result = await fmt(['--check', '**/*.hjson'], tree());
+    expect(result).toEqual({ code: 1, out: 'conf/app.hjson\nconf/deep/db.hjson\n', err: '' });
+    expect((await fmt(['--check', 'ok.hjson'], tree())).code).toBe(0);
+    expect(await fmt(['--check', 'plain.hjson'], { '/repo/plain.hjson': 'a: 1\nb: [\n  1\n]\n' })).toEqual({ code: 0, out: '', err: '' });
+  });
+
+  it('--diff应该输出统一格式的差异', async () => {
+    const result = await fmt(['--check', '--diff', 'conf/*.hjson'], tree());
+    expect(result.out).toBe('conf/app.hjson\n--- a/conf/app.hjson\n+++ b/conf/app.hjson\n@@ -1 +1,6 @@\n-{a: 1, b: [1]}\n\\ No newline at end of file\n+{\n+  "a": 1\n+  "b": [\n+    1\n+  ]\n+}\n');
+  });
+
+  it('--diff在大文件上应该把改动作为一整块输出', async () => {
+    const keys = Array.from({ length: 1200 }, (_, i) => 'k' + i);
+    const files = { '/repo/.hjsonfmtrc': 'quotes: keys', '/repo/big.hjson': '{\n' + keys.map(k => '  ' + k + ': 1\n').join('') + '}\n' };
+    const { out } = await fmt(['--diff', '--check', 'big.hjson'], files);
+    const lines = out.split('\n');
+    expect(lines.slice(0, 5)).toEqual(['big.hjson', '--- a/big.hjson', '+++ b/big.hjson', '@@ -1,1202 +1,1202 @@', ' {']);
+    expect(lines.filter(line => line.startsWith('@@'))).toHaveLength(1);
+    expect(lines.slice(5, 1205)).toEqual(keys.map(k => '-  ' + k + ': 1'));
+    expect(lines.slice(1205, 2405)).toEqual(keys.map(k => '+  "' + k + '": 1'));
+  });
+
+  it('--write应该按最近的配置文件重写', async () => {
+    const files: Record<string, string> = tree();
+    expect(await fmt(['--write', 'conf/**/*.hjson', 'ok.hjson'], files)).toEqual({ code: 0, out: 'conf/app.hjson\nconf/deep/db.hjson\n', err: '' });
+    expect(files['/repo/conf/deep/db.hjson']).toBe('// db\nhost: "x",\n');
+    expect(files['/repo/node_modules/pkg/x.hjson']).toBe('{a:1}');
+    expect((await fmt(['--check', '**/*.hjson'], files)).code).toBe(0);
+    delete files['/repo/.hjsonfmtrc'];
+    expect((await fmt(['ok.hjson'], files)).out).toBe('{\n    a: 1\n}\n');
+    expect((await fmt(['--space', '1', 'ok.hjson'], files)).out).toBe('{\n a: 1\n}\n');
+  });
+
+  it('应该报告语法错误和无效的配置', async () => {
+    const files: Record<string, string> = { ...tree(), '/repo/bad.hjson': '{\n  a b: 1\n}' };
+    expect(await fmt(['--check', 'bad.hjson', 'ok.hjson'], files)).toEqual({ code: 1, out: '', err: 'bad.hjson:2:4: error: Found whitespace in your key name (use quotes to include) [KEY_WHITESPACE]\n' });
+    files['/repo/.hjsonfmtrc'] = '[1]';
+    expect(await fmt(['ok.hjson'], files)).toEqual({ code: 2, out: '', err: 'hjson fmt: invalid /repo/.hjsonfmtrc: expected an object of stringify options\n' });
+    expect((await fmt(['--check', '--write', 'ok.hjson'], files)).code).toBe(2);
+    expect((await fmt(['*.json'], files)).err).toBe('hjson fmt: no files match *.json\n');
+  });
+});
+
+describe('Hjson代码检查测试', () => {
+  const rules = (text: string, config?: Parameters<typeof lint>[1]) => lint(text, config).map(d => d.rule);
+
+  it('应该报告不需要的引号和有歧义的无引号字符串', () => {
+    const text = '{\n  "name": app\n  count: 10 apples\n  note: see # here\n  list: a,\n  ok: "x"\n}';
+    expect(lint(text).map(d => [d.rule, d.line, d.column])).toEqual([
+      ['no-unneeded-quotes', 2, 3],
+      ['quoteless-literal', 3, 10],
+      ['quoteless-punctuation', 4, 13],
+      ['quoteless-punctuation', 5, 10],
+    ]);
+    expect(applyFixes(text, lint(text))).toBe('{\n  name: app\n  count: "10 apples"\n  note: "see # here"\n  list: "a,"\n  ok: "x"\n}');
+    expect(rules('{\n  "a b": true\n  c: truely\n  d: null\n}')).toEqual([]);
+  });
+
+  it('应该报告混用的注释和逗号风格', () => {
+    expect(applyFixes('# a\nx: 1 // b\n/* c */', lint('# a\nx: 1 // b\n/* c */'))).toBe('# a\nx: 1 # b\n/* c */');
+    expect(rules('# a\nx: 1', { rules: { 'comment-style': ['warning', '//'] } })).toEqual(['comment-style']);
+
+    const text = '{\n  a: 1,\n  b: 2\n  c: x\n  d: [1, 2,\n    3]\n}';
+    expect(lint(text).map(d => [d.rule, d.message, d.line, d.column])).toEqual([['comma-style', 'Missing comma after this line', 3, 7]]);
+    expect(applyFixes(text, lint(text))).toBe('{\n  a: 1,\n  b: 2,\n  c: x\n  d: [1, 2,\n    3]\n}');
+    expect(applyFixes(text, lint(text, { rules: { 'comma-style': ['warning', 'never'] } }))).toBe('{\n  a: 1\n  b: 2\n  c: x\n  d: [1, 2\n    3]\n}');
+  });
+
+  it('应该报告不一致的缩进', () => {
+    const text = '{\n  a: 1\n   b: [\n     1\n    2\n   ]\n # c\n}';
+    expect(lint(text).map(d => [d.message, d.line])).toEqual([
+      ['Expected indentation of 2 spaces but found 3 spaces', 3],
+      ['Expected indentation of 4 spaces but found 5 spaces', 4],
+      ['Expected indentation of 2 spaces but found 3 spaces', 6],
+      ['Expected indentation of 2 spaces but found 1 spaces', 7],
+    ]);
+    expect(applyFixes(text, lint(text))).toBe('{\n  a: 1\n  b: [\n    1\n    2\n  ]\n  # c\n}');
+    expect(applyFixes('a: 1\nb: {\n  c: 1\n}', lint('a: 1\nb: {\n  c: 1\n}', { rules: { indent: ['warning', 'tab'] } }))).toBe('a: 1\nb: {\n\tc: 1\n}');
+  });
+
+  it('应该从第一层的缩进推断缩进单位', () => {
+    const text = '{ a: [\n   1\n  ]\n  b: 2\n}';
+    expect(lint(text).map(d => [d.message, d.line])).toEqual([['Expected indentation of 4 spaces but found 3 spaces', 2]]);
+    expect(applyFixes(text, lint(text))).toBe('{ a: [\n    1\n  ]\n  b: 2\n}');
+    expect(lint('{ a: [\n   1 ]\n}').map(d => d.message)).toEqual(['Expected indentation of 4 spaces but found 3 spaces']);
+    expect(lint('a: 1\n  b: 2\n').map(d => [d.message, d.line])).toEqual([['Expected indentation of 0 spaces but found 2 spaces', 2]]);
+    expect(applyFixes('a: 1\n  b: 2\n', lint('a: 1\n  b: 2\n'))).toBe('a: 1\nb: 2\n');
+  });
+
+  it('修复后再次检查不应该再报告逗号风格', () => {
+    const round = (text: string) => applyFixes(text, lint(text));
+    for (const text of [
+      '{\n  a: 10 apples\n  b: 1,\n  c: 2\n}',
+      '{\n  a: 1,\n  b: 10 apples\n  c: see # here\n  d: 2\n}',
+      '[\n  x,\n  1,\n  2\n]',
+    ]) {
+      const fixed = round(text);
+      expect(lint(fixed)).toEqual([]);
+      expect(round(fixed)).toBe(fixed);
+    }
+    expect(round('{\n  a: 10 apples\n  b: 1,\n  c: 2\n}')).toBe('{\n  a: "10 apples"\n  b: 1\n  c: 2\n}');
+    expect(round('{\n  a: 1,\n  b: 10 apples\n  c: 2\n}')).toBe('{\n  a: 1,\n  b: "10 apples",\n  c: 2\n}');
+  });
+
+  it('应该报告多行字符串中的制表符和空键', () => {
+    const result = lint("x: '''\n\tab\n'''\n'': 1");
+    expect(result.map(d => [d.rule, d.line, d.column, d.fix])).toEqual([
+      ['no-tabs-in-multiline', 2, 1, undefined],
+      ['no-empty-keys', 4, 1, undefined],
+    ]);
+  });
+
+  it('应该支持配置规则和插件', () => {
+    const text = '{\n  "a": 1\n}';
+    expect(lint(text, { rules: { 'no-unneeded-quotes': 'error' } })[0]).toEqual({
+      rule: 'no-unneeded-quotes', message: "Key 'a' does not need quotes", severity: 'error',
+      line: 2, column: 3, offset: 4, endOffset: 7, fix: [{ start: 4, end: 7, text: 'a' }],
+    });
+    expect(lint(text, { rules: { 'no-unneeded-quotes': 'off' } })).toEqual([]);
+    expect(() => lint(text, { rules: { 'no-such-rule': 'error' } })).toThrow('unknown lint rule: no-such-rule');
+
+    const noTodo = {
+      name: 'no-todo', severity: 'off' as const,
+      check(context: { text: string, report: (p: { message: string, start: number, end: number }) => void }) {
+        const i = context.text.indexOf('TODO');
+        if (i >= 0) context.report({ message: 'Unresolved TODO', start: i, end: i + 4 });
+      }
+    };
+    expect(rules('a: TODO', { plugins: [noTodo] })).toEqual([]);
+    expect(lint('a: TODO', { plugins: [noTodo], rules: { 'no-todo': 'info' } }).map(d => [d.rule, d.severity, d.column])).toEqual([['no-todo', 'info', 4]]);
+  });
+
+  it('应该把语法错误作为诊断返回', () => {
+    expect(lint('{\n  a b: 1\n}')).toEqual([{
+      rule: 'syntax', message: 'Found whitespace in your key name (use quotes to include)', severity: 'error',
+      line: 2, column: 4, offset: 5, endOffset: 6,
+    }]);
+  });
+
+  it('应该跳过重叠的修复', () => {
+    const text = 'a: 10 apples, # x';
+    expect(rules(text)).toEqual(['quoteless-literal', 'quoteless-punctuation']);
+    expect(applyFixes(text, lint(text))).toBe('a: "10 apples, # x"');
+  });
+});
+
+describe('Hjson文件包含测试', () => {
+  const files: Record<string, string> = {
+    'conf/app.hjson': '{\n  $include: ["base.hjson", "env/prod.hjson"]\n  name: app\n  db: { user: "admin" }\n}',
+    'conf/base.hjson': 'name: base\ndb: {\n  host: localhost\n  port: 5432\n}\nretry: { count: 3, delay: 1 }\ntags: ["a"]',
+    'conf/env/prod.hjson': '$include: ../../shared/hosts.hjson\ndb: { port: 6543 }\ntags: ["b"]',
+    'shared/hosts.hjson': 'db: { host: "prod.example.com" }',
+  };
+  const read = (extra: Record<string, string> = {}) => (file: string) => {
+    const all = { ...files, ...extra };
+    if (!(file in all)) throw new Error('no such file');
+    return all[file];
+  };
+
+  it('应该解析相对路径并深度合并', async () => {
+    expect(await loadFile('./conf/app.hjson', { include: true, read: read() })).toEqual({
+      name: 'app',
+      db: { host: 'prod.example.com', port: 6543, user: 'admin' },
+      retry: { count: 3, delay: 1 },
+      tags: ['b'],
+    });
+    expect(await loadFile('conf/app.hjson', { read: read() })).toHaveProperty('$include');
+  });
+
+  it('应该支持嵌套对象中的包含和解析选项', async () => {
+    const extra = { 'main.hjson': 'a: { $include: "conf/base.hjson", retry: { count: 5 } }\nb: [{ $include: "shared/hosts.hjson" }]' };
+    const value = await loadFile('main.hjson', { include: true, read: read(extra), nullPrototype: true });
+    expect(value.a.retry).toEqual({ count: 5, delay: 1 });
+    expect(value.b[0].db.host).toBe('prod.example.com');
+    expect(Object.getPrototypeOf(value.a)).toBe(null);
+  });
+
+  it('应该检测循环包含', async () => {
+    const extra = { 'a.hjson': 'x: 1\n$include: b.hjson', 'b.hjson': '{\n  $include: ["c.hjson", "a.hjson"]\n}', 'c.hjson': 'y: 1' };
+    const error = await loadFile('a.hjson', { include: true, read: read(extra) }).catch(e => e);
+    expect(error).toBeInstanceOf(HjsonLoadError);
+    expect(error.message).toBe('b.hjson:2:25: include cycle: a.hjson -> b.hjson -> a.hjson\n  included from a.hjson:2:11');
+    expect(error).toMatchObject({ file: 'b.hjson', line: 2, column: 25, includedFrom: [{ file: 'a.hjson', line: 2, column: 11 }] });
+  });
+
+  it('错误应该报告文件链和位置', async () => {
+    const load = (extra: Record<string, string>) => loadFile('conf/app.hjson', { include: true, read: read(extra) }).catch(e => e.message);
+    expect(await load({ 'shared/hosts.hjson': 'db: {\n  host prod\n}' })).toBe(
+      "shared/hosts.hjson:2:8: Expected ':' instead of 'p'\n" +
+      "  included from conf/env/prod.hjson:1:11\n  included from conf/app.hjson:2:28");
+    expect(await load({ 'conf/base.hjson': '[1]' })).toBe('conf/app.hjson:2:14: expected conf/base.hjson to contain an object');
+    expect(await load({ 'conf/env/prod.hjson': '$include: 1' })).toBe('conf/env/prod.hjson:1:11: $include expects a file name or an array of file names\n  included from conf/app.hjson:2:28');
+
+    const error = await loadFile('missing.hjson', { include: true, read: read() }).catch(e => e);
+    expect(error.message).toBe('missing.hjson: cannot read file: no such file');
+    expect(error.cause.message).toBe('no such file');
+  });
+});
+
+describe('Hjson插值测试', () => {
+  const env = resolvers.env({ DB_HOST: 'db', DB_PORT: '5432', EMPTY: '' });
+  const error = (f: () => any) => {
+    try { f(); } catch (e: any) { return [e.code, e.message.replace(/ >>> [\s\S]*$/, '')]; }
+  };
+
+  it('应该展开占位符并保留引号的含义', () => {
+    const text = 'url: http://${DB_HOST:-localhost}:${DB_PORT}\nport: ${DB_PORT}\nquoted: "${DB_PORT}"\nsingle: \'${DB_PORT}\'\nml:\n  \'\'\'\n  ${DB_PORT}\n  \'\'\'\nescaped: $${DB_PORT}';
+    expect(parse(text, { interpolate: env })).toEqual({
+      url: 'http://db:5432', port: 5432, quoted: '5432', single: '${DB_PORT}', ml: '${DB_PORT}', escaped: '${DB_PORT}',
+    });
+    expect(parse('port: ${DB_PORT}')).toEqual({ port: '${DB_PORT}' });
+    expect(parse('${DB_PORT}', { interpolate: env })).toBe(5432);
+  });
+
+  it('应该支持默认值和必填检查', () => {
+    expect(parse('a: ${NOPE:-${DB_HOST}:1}\nb: ${EMPTY:-x}\nc: "${NOPE:-}"', { interpolate: env })).toEqual({ a: 'db:1', b: 'x', c: '' });
+    expect(error(() => parse('{\n  a: "x\\t${EMPTY:?must be set}"\n}', { interpolate: env })))
+      .toEqual([HjsonErrorCode.UnresolvedPlaceholder, 'EMPTY: must be set at line 2,10']);
+  });
+
+  it('未解析或无效的占位符应该报告位置', () => {
+    expect(error(() => parse('a: 1\nb: x${NOPE}', { interpolate: env }))).toEqual([HjsonErrorCode.UnresolvedPlaceholder, 'Unresolved placeholder ${NOPE} at line 2,5']);
+    expect(error(() => parse('a: ${DB', { interpolate: env }))).toEqual([HjsonErrorCode.BadPlaceholder, "Unterminated placeholder, missing '}' at line 1,4"]);
+    expect(error(() => parse('a: "${ }"', { interpolate: env }))).toEqual([HjsonErrorCode.BadPlaceholder, 'Placeholder without a name at line 1,5']);
+    expect(parseWithDiagnostics('a: ${X}\nb: "\\u0041${Y}"', { interpolate: env }).diagnostics.map(d => [d.code, d.line, d.column]))
+      .toEqual([[HjsonErrorCode.UnresolvedPlaceholder, 1, 4], [HjsonErrorCode.UnresolvedPlaceholder, 2, 11]]);
+    expect(parseWithDiagnostics('a: ${NOPE}\nb: "x${Y:-${NOPE}}"', { interpolate: env }).diagnostics.map(d => [d.offset, d.endOffset]))
+      .toEqual([[3, 10], [21, 28]]);
+  });
+
+  it('应该引用同一文档中的值并检测循环', () => {
+    const interpolate = [env, resolvers.document()];
+    expect(parse('a: ${b.1}\nb: ["x", "${c}y"]\nc: ${DB_HOST}\nd: [\n  ${d2}\n]\nd2: true', { interpolate })).toEqual({ a: 'dby', b: ['x', 'dby'], c: 'db', d: [true], d2: true });
+    expect(parse('a: ${x}\na: ${y}', { interpolate: resolvers.env({ x: '1', y: '2' }), duplicateKeys: 'collect' })).toEqual({ a: [1, 2] });
+    expect(error(() => parse('a: x${b}\nb: ${a}', { interpolate }))).toEqual([HjsonErrorCode.UnresolvedPlaceholder, 'Circular reference to a in ${a} at line 2,4']);
+    expect(error(() => parse('a: ${b}\nb: [1]', { interpolate }))).toEqual([HjsonErrorCode.UnresolvedPlaceholder, 'Placeholder ${b} does not resolve to text at line 1,4']);
+  });
+
+  it('异步解析器需要parseAsync', async () => {
+    let reads = 0;
+    const secrets = resolvers.file(async () => { reads++; return 'db: { password: "s3cret" }'; }, 'secret:');
+    const interpolate = [env, secrets];
+    expect(() => parse('a: ${secret:db.password}', { interpolate })).toThrow('an interpolation resolver returned a promise, use parseAsync');
+    expect(await parseAsync('a: ${secret:db.password}\nb: ${secret:db.password}@${DB_HOST}', { interpolate })).toEqual({ a: 's3cret', b: 's3cret@db' });
+    expect(reads).toBe(1);
+    expect(await parseAsync('a: ${secret:db.user}', { interpolate }).catch(e => e.code)).toBe(HjsonErrorCode.UnresolvedPlaceholder);
+    expect(await parseAsync('a: ${x}', { interpolate: (name, context) => Promise.resolve(name + context.path.join('.')) })).toEqual({ a: 'xa' });
+  });
+});
+
+describe('Hjson引用测试', () => {
+  const text = 'defaults: {\n  retry: { count: 3, delay: 1 }\n}\nupload: {\n  retry: { $ref: "#/defaults/retry" }\n}\nfetch: {\n  retry: { $ref: "#/upload/retry", count: 5 }\n}';
+  const error = (f: () => any) => {
+    try { f(); } catch (e: any) { return [e.code, e.message.replace(/ >>> [\s\S]*$/, '')]; }
+  };
+
+  it('应该解析文档内的引用并共享目标', () => {
+    const value = parse(text.replace(', count: 5', ''), { references: true });
+    expect(value.fetch.retry).toEqual({ count: 3, delay: 1 });
+    expect(value.upload.retry).toBe(value.defaults.retry);
+    expect(parse('a/b: { "~x": [1, 2] }\nb: { $ref: "#/a~1b/~0x/1" }\nc: { x: 1, y: { $ref: "#/c/x" } }', { references: true }))
+      .toEqual({ 'a/b': { '~x': [1, 2] }, b: 2, c: { x: 1, y: 1 } });
+    expect(parse(text.replace(', count: 5', ''))).toHaveProperty('upload.retry.$ref', '#/defaults/retry');
+  });
+
+  it('merge模式应该合并同级的键', () => {
+    const value = parse(text, { references: 'merge' });
+    expect(value.fetch.retry).toEqual({ count: 5, delay: 1 });
+    expect(value.defaults.retry).toEqual({ count: 3, delay: 1 });
+    expect(error(() => parse(text, { references: true }))).toEqual([HjsonErrorCode.BadReference, "Keys next to $ref are only merged when references is 'merge' at line 8,18"]);
+    expect(error(() => parse('a: 1\nb: { $ref: "#/a", c: 1 }', { references: 'merge' }))).toEqual([HjsonErrorCode.BadReference, 'Cannot merge keys into #/a, it is not an object at line 2,12']);
+  });
+
+  it('应该检测循环和无效的引用', () => {
+    expect(error(() => parse('a: { $ref: "#/b/x" }\nb: { $ref: "#/a" }', { references: true }))).toEqual([HjsonErrorCode.CircularReference, 'Circular reference #/a at line 2,12']);
+    expect(error(() => parse('a: { b: { $ref: "#" } }', { references: true }))).toEqual([HjsonErrorCode.CircularReference, 'Circular reference # at line 1,17']);
+    expect(error(() => parse('a: 1\nb: { $ref: "other.hjson#/a" }', { references: true })))
+      .toEqual([HjsonErrorCode.BadReference, 'Expected a JSON pointer within the document like "#/defaults", found "other.hjson#/a" at line 2,12']);
+    expect(parseWithDiagnostics('a: { $ref: "#/z" }\nb: { $ref: "#/b" }', { references: true }).diagnostics.map(d => [d.code, d.line, d.column]))
+      .toEqual([[HjsonErrorCode.BadReference, 1, 12], [HjsonErrorCode.CircularReference, 2, 12]]);
+  });
+
+  it('stringify应该把共享的对象写回引用', () => {
+    const value = parse(text, { references: 'merge' });
+    const out = stringify(value, { references: true });
+    expect(out).toBe('{\n  defaults:\n  {\n    retry:\n    {\n      count: 3\n      delay: 1\n    }\n  }\n  upload:\n  {\n    retry:\n    {\n      $ref: "#/defaults/retry"\n    }\n  }\n  fetch:\n  {\n    retry:\n    {\n      count: 5\n      delay: 1\n    }\n  }\n}');
+    const back = parse(out, { references: true });
+    expect(back).toEqual(value);
+    expect(back.upload.retry).toBe(back.defaults.retry);
+
+    const shared = [1];
+    expect(stringify({ a: shared, b: shared }, { references: true, condense: 80 })).toBe('{\n  a: [ 1 ]\n  b: {$ref: "#/a"}\n}');
+    expect(stringify({ a: shared, b: shared })).toBe('{\n  a: [\n    1\n  ]\n  b: [\n    1\n  ]\n}');
+  });
+});